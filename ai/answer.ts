@@ -0,0 +1,107 @@
+/**
+ * @fileOverview Answer generation shared by the text and voice assistant flows.
+ *
+ * - generateAnswer - Answers an insurance question, never throwing; failures come back as a readable reply.
+ * - ConversationTurn - An earlier message passed to generateAnswer as context.
+ */
+
+import {ai} from '@/ai/genkit';
+
+export interface ConversationTurn {
+    role: 'user' | 'ai';
+    text: string;
+}
+
+// Earlier messages included in the prompt for follow-up questions
+const MAX_HISTORY_TURNS = 10;
+
+// Simple in-memory cache to reduce API calls
+const responseCache = new Map<string, { response: string; timestamp: number }>();
+const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+
+// Fallback answers for common questions when the API quota is exhausted
+const commonResponses: Record<string, string> = {
+    'what is insurance': 'Insurance is a contract where you pay regular premiums to protect yourself financially against unexpected losses or damages. It helps manage risks in life, health, property, and more.',
+    'types of insurance': 'Common types include: Life Insurance, Health Insurance, Auto Insurance, Home Insurance, Travel Insurance, and Business Insurance. Each protects against different risks.',
+    'life insurance': 'Life insurance provides financial protection to your beneficiaries after your death. Term life is temporary coverage, while whole life provides lifelong protection with cash value.',
+    'health insurance': 'Health insurance covers medical expenses like doctor visits, hospital stays, prescriptions, and preventive care. It helps protect you from high healthcare costs.',
+};
+
+export async function generateAnswer(text: string, history: ConversationTurn[] = []): Promise<string> {
+    try {
+        if (!text || text.trim() === '') {
+            return "I'm sorry, I didn't receive any text. Could you please try again?";
+        }
+
+        // Check cache first. Follow-up questions depend on the conversation, so only
+        // questions asked without context are cached.
+        const recentHistory = history.filter(turn => turn.text.trim()).slice(-MAX_HISTORY_TURNS);
+        const cacheKey = recentHistory.length === 0 ? text.toLowerCase().trim() : null;
+        const cached = cacheKey ? responseCache.get(cacheKey) : undefined;
+        if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
+            console.log('Returning cached response for:', text);
+            return cached.response;
+        }
+
+        console.log('User query:', text);
+
+        // Check if Google API key is configured
+        if (!process.env.GOOGLE_API_KEY || process.env.GOOGLE_API_KEY === 'YOUR_GOOGLE_API_KEY_HERE') {
+            console.error('Google API key not configured!');
+            return "⚠️ Google API key is missing! Please add your Google API key to the .env.local file. Get a free key at: https://aistudio.google.com/app/apikey";
+        }
+
+        const conversation = recentHistory.length > 0
+            ? `Conversation so far:\n${recentHistory.map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.text}`).join('\n')}\n\n`
+            : '';
+
+        // Generate AI response using Genkit with Gemini
+        const { text: aiText } = await ai.generate({
+            prompt: `You are AssureAI, a helpful and professional insurance assistant. Answer the following question about insurance concisely and professionally. Be friendly, informative, and provide accurate insurance-related advice.${conversation ? ' Use the conversation so far to understand follow-up questions.' : ''}\n\n${conversation}User Question: ${text}\n\nAssistant Response:`,
+            config: {
+                temperature: 0.7,
+                maxOutputTokens: 300, // Reduced from 500 to save quota
+            }
+        });
+
+        console.log('AI Response:', aiText);
+
+        // Cache the response
+        if (cacheKey) {
+            responseCache.set(cacheKey, { response: aiText, timestamp: Date.now() });
+        }
+
+        // Clean old cache entries (keep last 50)
+        if (responseCache.size > 50) {
+            const entries = Array.from(responseCache.entries());
+            entries.sort((a, b) => b[1].timestamp - a[1].timestamp);
+            responseCache.clear();
+            entries.slice(0, 50).forEach(([key, value]) => responseCache.set(key, value));
+        }
+
+        return aiText;
+
+    } catch (error: any) {
+        console.error("Error generating answer:", error);
+
+        let errorMessage = error.message || 'Unknown error occurred';
+
+        // Check for common API errors
+        if (error.message && error.message.includes('API key')) {
+            errorMessage = 'Invalid or missing Google API key. Please get a new key at: https://aistudio.google.com/app/apikey';
+        } else if (error.message && error.message.includes('quota') || error.message.includes('429')) {
+            const query = text.toLowerCase().trim();
+            for (const [key, response] of Object.entries(commonResponses)) {
+                if (query.includes(key)) {
+                    return `📚 ${response}\n\n⚠️ Note: AI quota exceeded. Showing cached response. For detailed answers, please get a new API key at: https://aistudio.google.com/app/apikey`;
+                }
+            }
+
+            errorMessage = 'API quota exceeded. Please wait a few minutes or get a new API key at: https://aistudio.google.com/app/apikey';
+        } else if (error.message && error.message.includes('blocked')) {
+            errorMessage = 'The request was blocked by safety filters. Please rephrase your question.';
+        }
+
+        return `I apologize, but I encountered an error: ${errorMessage}`;
+    }
+}
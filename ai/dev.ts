@@ -1,4 +1,5 @@
 import { config } from 'dotenv';
 config();
 
-import '@/ai/flows/voice-query-processing.ts';
\ No newline at end of file
+import '@/ai/flows/voice-query-processing.ts';
+import '@/ai/flows/call-summary-processing.ts';
\ No newline at end of file
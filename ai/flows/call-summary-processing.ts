@@ -0,0 +1,86 @@
+/**
+ * @fileOverview Post-call analysis of bulk call transcripts using Google AI.
+ *
+ * - callSummaryProcess - A function that summarises a finished call and tags its disposition.
+ * - CallSummaryProcessInput - The input type for the callSummaryProcess function.
+ * - CallSummaryProcessOutput - The return type for the callSummaryProcess function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+
+const CallSummaryProcessInputSchema = z.object({
+  transcript: z.string().describe('The call transcript, one speaker turn per line.'),
+  contactName: z.string().optional().describe('Name of the person who was called.'),
+  campaignPurpose: z.string().optional().describe('What the call was meant to achieve.'),
+  extractedData: z.record(z.any()).optional().describe('Data the voice agent extracted during the call.'),
+});
+export type CallSummaryProcessInput = z.infer<typeof CallSummaryProcessInputSchema>;
+
+const CallSummaryProcessOutputSchema = z.object({
+  summary: z.string().describe('Two or three sentences on what was discussed and agreed.'),
+  sentiment: z.enum(['positive', 'neutral', 'negative']).describe("The contact's overall sentiment."),
+  disposition: z
+    .enum(['interested', 'callback', 'not_interested', 'wrong_number'])
+    .describe('How the call ended for sales follow-up.'),
+  nextAction: z.string().describe('The single next step the team should take with this contact.'),
+});
+export type CallSummaryProcessOutput = z.infer<typeof CallSummaryProcessOutputSchema>;
+
+/**
+ * Unlike the assistant flows this one throws on failure, so the caller can retry later
+ */
+export async function callSummaryProcess(input: CallSummaryProcessInput): Promise<CallSummaryProcessOutput> {
+  return callSummaryProcessFlow(input);
+}
+
+const callSummaryProcessFlow = ai.defineFlow(
+  {
+    name: 'callSummaryProcessFlow',
+    inputSchema: CallSummaryProcessInputSchema,
+    outputSchema: CallSummaryProcessOutputSchema,
+  },
+  async (input) => {
+    const { transcript, contactName, campaignPurpose, extractedData } = input;
+
+    if (!transcript.trim()) {
+      throw new Error('Transcript is empty');
+    }
+
+    if (!process.env.GOOGLE_API_KEY || process.env.GOOGLE_API_KEY === 'YOUR_GOOGLE_API_KEY_HERE') {
+      throw new Error('Google API key is not configured');
+    }
+
+    const context = [
+      contactName && `Contact: ${contactName}`,
+      campaignPurpose && `Call purpose: ${campaignPurpose}`,
+      extractedData && Object.keys(extractedData).length > 0 && `Data captured by the agent: ${JSON.stringify(extractedData)}`,
+    ].filter(Boolean).join('\n');
+
+    const { output } = await ai.generate({
+      prompt: `You review outbound calls made by AssureAI, an insurance voice agent. Read the transcript below and report what happened.
+
+Disposition rules:
+- interested: the contact wants the offer, a quote or more details
+- callback: the contact asked to be called again at another time
+- not_interested: the contact declined or asked not to be contacted
+- wrong_number: the person reached is not the intended contact
+
+${context}
+
+Transcript:
+${transcript}`,
+      output: { schema: CallSummaryProcessOutputSchema },
+      config: {
+        temperature: 0.2,
+        maxOutputTokens: 400,
+      },
+    });
+
+    if (!output) {
+      throw new Error('The model returned no analysis');
+    }
+
+    return output;
+  }
+);
@@ -10,9 +10,22 @@
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {generateAnswer} from '@/ai/answer';
+import {synthesizeSpeech} from '@/ai/synthesizer';
+import {getTranscriber} from '@/ai/transcriber';
 
+const ConversationTurnSchema = z.object({
+  role: z.enum(['user', 'ai']),
+  text: z.string(),
+});
+
+// Send either audioDataUri (transcribed on the server) or userText (already
+// transcribed in the browser)
 const VoiceQueryProcessInputSchema = z.object({
-  audioDataUri: z.string().describe('The audio data URI from user speech'),
+  audioDataUri: z.string().optional().describe('The audio data URI from user speech'),
+  userText: z.string().optional().describe('What the user said, when the browser already transcribed it.'),
+  history: z.array(ConversationTurnSchema).optional().describe('Earlier messages in the conversation, oldest first.'),
+  voice: z.string().optional().describe('Voice to read the reply in, as chosen in settings.'),
 });
 export type VoiceQueryProcessInput = z.infer<typeof VoiceQueryProcessInputSchema>;
 
@@ -34,54 +47,45 @@ const voiceQueryProcessFlow = ai.defineFlow(
     outputSchema: VoiceQueryProcessOutputSchema,
   },
   async (input) => {
-    const { audioDataUri } = input;
+    const { audioDataUri, history, voice } = input;
 
-    try {
-        // For now, return a placeholder since we don't have actual speech-to-text
-        // In a real implementation, you would transcribe the audio here
-        const userText = "I said something via voice (Speech-to-text not implemented yet)";
-        
-        console.log('User audio received, simulating transcription...');
-        
-        // Check if Google API key is configured
-        if (!process.env.GOOGLE_API_KEY || process.env.GOOGLE_API_KEY === 'YOUR_GOOGLE_API_KEY_HERE') {
-            console.error('Google API key not configured!');
-            return {
-                userText: "Voice message",
-                aiText: "⚠️ Google API key is missing! Please add your Google API key to the .env.local file. Get a free key at: https://aistudio.google.com/app/apikey",
-            };
-        }
-        
-        // Generate AI response using Genkit with Gemini
-        const { text: aiText } = await ai.generate({
-            prompt: `You are AssureAI, a helpful and professional insurance assistant. You're helping users with insurance-related questions. Since voice transcription is not yet implemented, respond by acknowledging this and offering text-based help instead. Be friendly and informative.`,
-            config: {
-                temperature: 0.7,
-                maxOutputTokens: 300,
-            }
-        });
+    let userText = input.userText?.trim() || '';
+    if (!userText && audioDataUri) {
+      try {
+          const transcriber = getTranscriber();
+          console.log(`User audio received, transcribing with ${transcriber.name}...`);
+          userText = await transcriber.transcribe(audioDataUri);
+          console.log('Transcribed user audio:', userText);
+      } catch (error: any) {
+          console.error("Error transcribing voice message:", error);
 
-        console.log('AI Response:', aiText);
+          let errorMessage = error.message || 'Unknown error occurred';
 
-        return { userText, aiText };
+          // Check for common API errors
+          if (error.message && error.message.includes('API key')) {
+              errorMessage = 'Invalid or missing Google API key. Please check your .env.local file.';
+          } else if (error.message && error.message.includes('quota')) {
+              errorMessage = 'API quota exceeded. Please check your Google AI Studio quota.';
+          }
+
+          return {
+              userText: "Voice message",
+              aiText: `I apologize, but I couldn't understand your voice message: ${errorMessage.replace(/\.$/, '')}. Please try using text input instead.`,
+          };
+      }
+    }
 
-    } catch (error: any) {
-        console.error("Error in voice processing flow:", error);
-        
-        let errorMessage = error.message || 'Unknown error occurred';
-        
-        // Check for common API errors
-        if (error.message && error.message.includes('API key')) {
-            errorMessage = 'Invalid or missing Google API key. Please check your .env.local file.';
-        } else if (error.message && error.message.includes('quota')) {
-            errorMessage = 'API quota exceeded. Please check your Google AI Studio quota.';
-        }
-        
+    if (!userText) {
         return {
             userText: "Voice message",
-            aiText: `I apologize, but I encountered an error: ${errorMessage}. Please try using text input instead.`,
+            aiText: "I'm sorry, I couldn't hear anything in that recording. Could you please try again?",
         };
     }
+
+    // Answer exactly as if the transcript had been typed
+    const aiText = await generateAnswer(userText, history);
+    const aiAudioUrl = await synthesizeSpeech(aiText, voice);
+
+    return { userText, aiText, aiAudioUrl };
   }
 );
-
@@ -0,0 +1,192 @@
+/**
+ * @fileOverview Text-to-speech for assistant replies.
+ *
+ * - synthesizeSpeech - Renders a reply to audio and returns a playable URL, reusing cached clips.
+ * - readSpeechClip - Loads a cached clip for the /api/speech route.
+ * - Synthesizer - The interface every backend implements.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import {ai} from '@/ai/genkit';
+import {ASSISTANT_VOICES, AssistantVoice, DEFAULT_ASSISTANT_VOICE} from '@/ai/voices';
+
+export interface Synthesizer {
+  name: string;
+  // Returns WAV audio
+  synthesize(text: string, voice: AssistantVoice): Promise<Buffer>;
+}
+
+// Replies longer than this are not read out
+const MAX_SPEECH_CHARACTERS = 2000;
+
+// Gemini prebuilt voices standing in for the voices offered in Settings
+const GEMINI_VOICES: Record<AssistantVoice, string> = {
+  alloy: 'Charon',
+  nova: 'Kore',
+  echo: 'Puck',
+};
+
+// Raw audio format returned by the Gemini TTS models
+const GEMINI_SAMPLE_RATE = 24000;
+
+/**
+ * Wrap 16-bit mono PCM samples in a WAV header so browsers can play them
+ */
+function pcmToWav(pcm: Buffer, sampleRate: number): Buffer {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16); // fmt chunk size
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // Mono
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28); // Byte rate
+  header.writeUInt16LE(2, 32); // Block align
+  header.writeUInt16LE(16, 34); // Bits per sample
+  header.write('data', 36);
+  header.writeUInt32LE(pcm.length, 40);
+  return Buffer.concat([header, pcm]);
+}
+
+function isGoogleApiKeyConfigured(): boolean {
+  return !!process.env.GOOGLE_API_KEY && process.env.GOOGLE_API_KEY !== 'YOUR_GOOGLE_API_KEY_HERE';
+}
+
+/**
+ * Reads replies aloud with Gemini's text-to-speech model
+ */
+const geminiSynthesizer: Synthesizer = {
+  name: 'gemini',
+
+  async synthesize(text, voice) {
+    if (!isGoogleApiKeyConfigured()) {
+      throw new Error('Google API key is not configured');
+    }
+
+    const { media } = await ai.generate({
+      model: process.env.TTS_MODEL || 'googleai/gemini-2.5-flash-preview-tts',
+      prompt: text,
+      config: {
+        responseModalities: ['AUDIO'],
+        speechConfig: {
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName: GEMINI_VOICES[voice] },
+          },
+        },
+      },
+    });
+
+    if (!media?.url) {
+      throw new Error('The model returned no audio');
+    }
+
+    const pcm = Buffer.from(media.url.substring(media.url.indexOf(',') + 1), 'base64');
+    return pcmToWav(pcm, GEMINI_SAMPLE_RATE);
+  },
+};
+
+/**
+ * Offline stand-in for tests and local development: a short tone per voice,
+ * lasting roughly as long as the reply would take to read
+ */
+const localSynthesizer: Synthesizer = {
+  name: 'local',
+
+  async synthesize(text, voice) {
+    const sampleRate = 8000;
+    const seconds = Math.min(Math.max(text.length / 15, 0.5), 10);
+    const frequency = 220 * (ASSISTANT_VOICES.indexOf(voice) + 1);
+
+    const pcm = Buffer.alloc(Math.floor(sampleRate * seconds) * 2);
+    for (let i = 0; i < pcm.length / 2; i++) {
+      pcm.writeInt16LE(Math.round(Math.sin((2 * Math.PI * frequency * i) / sampleRate) * 8000), i * 2);
+    }
+    return pcmToWav(pcm, sampleRate);
+  },
+};
+
+const synthesizers: Record<string, Synthesizer> = {
+  gemini: geminiSynthesizer,
+  local: localSynthesizer,
+};
+
+/**
+ * Resolve the text-to-speech backend selected by SYNTHESIZER, which defaults to gemini
+ * when a Google API key is configured. Returns null when speech is off: SYNTHESIZER=none,
+ * or no backend chosen and no key to use Gemini with.
+ */
+function getSynthesizer(): Synthesizer | null {
+  // Read environment variables inside function after dotenv loads
+  const name = process.env.SYNTHESIZER?.trim().toLowerCase() || (isGoogleApiKeyConfigured() ? 'gemini' : 'none');
+  if (name === 'none') {
+    return null;
+  }
+
+  const synthesizer = synthesizers[name];
+  if (!synthesizer) {
+    throw new Error(`Unknown SYNTHESIZER "${name}". Supported synthesizers: ${Object.keys(synthesizers).join(', ')}, none`);
+  }
+
+  return synthesizer;
+}
+
+function getSpeechCacheDir(): string {
+  return path.resolve(process.env.SPEECH_CACHE_DIR || path.join(process.cwd(), 'storage', 'speech'));
+}
+
+/**
+ * Render a reply to audio in the chosen voice and return a URL the browser can play.
+ * Clips are cached on disk by a hash of the backend, voice and text, so repeated
+ * answers are not synthesised again. Returns undefined when speech is off or fails;
+ * the text reply is still usable.
+ */
+export async function synthesizeSpeech(text: string, voice?: string): Promise<string | undefined> {
+  try {
+    const synthesizer = getSynthesizer();
+    if (!synthesizer || !text.trim() || text.length > MAX_SPEECH_CHARACTERS) {
+      return undefined;
+    }
+
+    const chosenVoice = ASSISTANT_VOICES.includes(voice as AssistantVoice)
+      ? voice as AssistantVoice
+      : DEFAULT_ASSISTANT_VOICE;
+    const clip = crypto.createHash('sha256').update(`${synthesizer.name}:${chosenVoice}:${text}`).digest('hex');
+    const filePath = path.join(getSpeechCacheDir(), `${clip}.wav`);
+
+    if (!fs.existsSync(filePath)) {
+      const audio = await synthesizer.synthesize(text, chosenVoice);
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      // Write to a temporary file first so a concurrent request never serves half a clip
+      const tempPath = `${filePath}.${process.pid}.part`;
+      await fs.promises.writeFile(tempPath, audio);
+      await fs.promises.rename(tempPath, filePath);
+    }
+
+    return `/api/speech/${clip}`;
+  } catch (error: any) {
+    console.error('Error synthesizing speech:', error.message);
+    return undefined;
+  }
+}
+
+/**
+ * Load a cached clip by the ID in its URL, or null when it does not exist
+ */
+export async function readSpeechClip(clip: string): Promise<Buffer | null> {
+  if (!/^[a-f0-9]{64}$/.test(clip)) {
+    return null;
+  }
+
+  try {
+    return await fs.promises.readFile(path.join(getSpeechCacheDir(), `${clip}.wav`));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * @fileOverview Speech-to-text backends for the voice assistant.
+ *
+ * - getTranscriber - Resolves the backend selected by TRANSCRIBER (defaults to gemini).
+ * - Transcriber - The interface every backend implements.
+ */
+
+import {ai} from '@/ai/genkit';
+
+export interface Transcriber {
+  name: string;
+  // Returns the spoken text, or an empty string when nothing was said
+  transcribe(audioDataUri: string): Promise<string>;
+}
+
+// Phrase the local transcriber hears when LOCAL_TRANSCRIPT is not set
+const DEFAULT_LOCAL_TRANSCRIPT = 'What does my insurance policy cover?';
+
+/**
+ * Split a data URI into its content type and payload
+ */
+export function parseDataUri(dataUri: string): { contentType: string; data: string; base64: boolean } {
+  const match = dataUri.match(/^data:([^;,]*)((?:;[^;,]*)*),([\s\S]*)$/);
+  if (!match) {
+    throw new Error('Audio must be sent as a data URI');
+  }
+
+  return {
+    contentType: match[1] || 'text/plain',
+    data: match[3],
+    base64: match[2].split(';').includes('base64'),
+  };
+}
+
+/**
+ * Sends the recording to Gemini as multimodal input and asks for a verbatim transcript
+ */
+const geminiTranscriber: Transcriber = {
+  name: 'gemini',
+
+  async transcribe(audioDataUri) {
+    if (!process.env.GOOGLE_API_KEY || process.env.GOOGLE_API_KEY === 'YOUR_GOOGLE_API_KEY_HERE') {
+      throw new Error('Google API key is not configured');
+    }
+
+    const { contentType } = parseDataUri(audioDataUri);
+
+    const { text } = await ai.generate({
+      prompt: [
+        { media: { url: audioDataUri, contentType } },
+        {
+          text: 'Transcribe the speech in this recording exactly as spoken, in the language it is spoken in. Reply with the transcript only, without quotes, labels or commentary. If there is no intelligible speech, reply with nothing.',
+        },
+      ],
+      config: {
+        temperature: 0,
+        maxOutputTokens: 500,
+      },
+    });
+
+    return text.trim();
+  },
+};
+
+/**
+ * Offline stand-in for tests and local development. Text data URIs
+ * (data:text/plain,...) are "heard" as their contents; any real audio is heard
+ * as LOCAL_TRANSCRIPT.
+ */
+const localTranscriber: Transcriber = {
+  name: 'local',
+
+  async transcribe(audioDataUri) {
+    const { contentType, data, base64 } = parseDataUri(audioDataUri);
+
+    if (contentType.startsWith('text/')) {
+      const text = base64 ? Buffer.from(data, 'base64').toString('utf8') : decodeURIComponent(data);
+      return text.trim();
+    }
+
+    return process.env.LOCAL_TRANSCRIPT ?? DEFAULT_LOCAL_TRANSCRIPT;
+  },
+};
+
+const transcribers: Record<string, Transcriber> = {
+  gemini: geminiTranscriber,
+  local: localTranscriber,
+};
+
+/**
+ * Resolve the speech-to-text backend selected by TRANSCRIBER (defaults to gemini)
+ */
+export function getTranscriber(): Transcriber {
+  // Read environment variables inside function after dotenv loads
+  const name = process.env.TRANSCRIBER?.trim().toLowerCase() || 'gemini';
+
+  const transcriber = transcribers[name];
+  if (!transcriber) {
+    throw new Error(`Unknown TRANSCRIBER "${name}". Supported transcribers: ${Object.keys(transcribers).join(', ')}`);
+  }
+
+  return transcriber;
+}
@@ -0,0 +1,12 @@
+/**
+ * @fileOverview Assistant voices, shared by the synthesizer and the server without loading genkit.
+ *
+ * - ASSISTANT_VOICES - The voices users can pick in Settings.
+ * - DEFAULT_ASSISTANT_VOICE - The voice used when none was picked.
+ */
+
+export const ASSISTANT_VOICES = ['alloy', 'nova', 'echo'] as const;
+
+export type AssistantVoice = typeof ASSISTANT_VOICES[number];
+
+export const DEFAULT_ASSISTANT_VOICE: AssistantVoice = 'alloy';
@@ -1,24 +1,83 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { Phone, RefreshCw, Search, Filter, Download, Trash2, Eye } from 'lucide-react';
+import { Phone, RefreshCw, Search, Filter, Trash2, Eye, Pause, Play, XCircle, Wallet } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
-import { BulkCallUpload } from '@/components/BulkCallUpload';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { BulkCallUpload, CampaignOption } from '@/components/BulkCallUpload';
+import { ExportCallsButton } from '@/components/ExportCallsButton';
 import { CallInteractionDialog } from '@/components/CallInteractionDialog';
 import { useToast } from '@/hooks/use-toast';
 
+type CallStatus =
+  | 'queued'
+  | 'dialing'
+  | 'ringing'
+  | 'in_progress'
+  | 'completed'
+  | 'no_answer'
+  | 'busy'
+  | 'failed'
+  | 'cancelled';
+
+type StatusSummary = { total: number } & Record<CallStatus, number>;
+
+const STATUS_LABELS: Record<CallStatus, string> = {
+  queued: 'Queued',
+  dialing: 'Dialing',
+  ringing: 'Ringing',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  no_answer: 'No Answer',
+  busy: 'Busy',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const EMPTY_SUMMARY: StatusSummary = {
+  total: 0,
+  queued: 0,
+  dialing: 0,
+  ringing: 0,
+  in_progress: 0,
+  completed: 0,
+  no_answer: 0,
+  busy: 0,
+  failed: 0,
+  cancelled: 0,
+};
+
+interface Campaign extends CampaignOption {
+  agentId?: string;
+  purpose?: string;
+  budgetCap?: number; // Call cost units (cents)
+  spent: number;
+  totalContacts: number;
+  createdAt: string;
+}
+
 interface BulkCall {
   id: string;
   name: string;
   phone: string;
   city?: string;
   email?: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  campaignId?: string;
+  status: CallStatus;
   bolnaCallId?: string;
   errorMessage?: string;
   callAttempts: number;
@@ -35,24 +94,14 @@ interface CallsResponse {
     total: number;
     pages: number;
   };
-  summary: {
-    total: number;
-    pending: number;
-    processing: number;
-    completed: number;
-    failed: number;
-  };
+  summary: StatusSummary;
+  queuePaused: boolean;
 }
 
 export default function BulkCallsPage() {
   const [calls, setCalls] = useState<BulkCall[]>([]);
-  const [summary, setSummary] = useState({
-    total: 0,
-    pending: 0,
-    processing: 0,
-    completed: 0,
-    failed: 0,
-  });
+  const [summary, setSummary] = useState<StatusSummary>(EMPTY_SUMMARY);
+  const [queuePaused, setQueuePaused] = useState(false);
   const [pagination, setPagination] = useState({
     page: 1,
     limit: 50,
@@ -62,6 +111,12 @@ export default function BulkCallsPage() {
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [campaignFilter, setCampaignFilter] = useState<string>('all');
+  const [deleteCampaignOpen, setDeleteCampaignOpen] = useState(false);
+  const [cancelQueueOpen, setCancelQueueOpen] = useState(false);
+  const [budgetOpen, setBudgetOpen] = useState(false);
+  const [budgetInput, setBudgetInput] = useState('');
   const [selectedCalls, setSelectedCalls] = useState<string[]>([]);
   const [selectedCallId, setSelectedCallId] = useState<string | null>(null);
   const [interactionDialogOpen, setInteractionDialogOpen] = useState(false);
@@ -89,6 +144,10 @@ export default function BulkCallsPage() {
         params.append('search', searchTerm);
       }
 
+      if (campaignFilter && campaignFilter !== 'all') {
+        params.append('campaignId', campaignFilter);
+      }
+
       const response = await fetch(`${apiUrl}/api/bulk-calls?${params}`, {
         headers: {
           'Authorization': `Bearer ${token}`,
@@ -103,6 +162,7 @@ export default function BulkCallsPage() {
       setCalls(data.calls);
       setPagination(data.pagination);
       setSummary(data.summary);
+      setQueuePaused(data.queuePaused);
     } catch (error: any) {
       console.error('Fetch error:', error);
       toast({
@@ -115,10 +175,174 @@ export default function BulkCallsPage() {
     }
   };
 
+  const fetchCampaigns = async () => {
+    try {
+      const token = localStorage.getItem('token');
+      const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
+
+      const response = await fetch(`${apiUrl}/api/campaigns`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch campaigns');
+      }
+
+      const data = await response.json();
+      setCampaigns(data.campaigns);
+    } catch (error: any) {
+      console.error('Fetch campaigns error:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchCampaigns();
+  }, []);
+
   useEffect(() => {
     fetchCalls();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [pagination.page, statusFilter]);
+  }, [pagination.page, statusFilter, campaignFilter]);
+
+  const selectedCampaign = campaigns.find(c => c.id === campaignFilter);
+
+  const handleCampaignAction = async (action: 'pause' | 'resume' | 'delete') => {
+    if (!selectedCampaign) return;
+
+    try {
+      const token = localStorage.getItem('token');
+      const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
+
+      const response = await fetch(
+        action === 'delete'
+          ? `${apiUrl}/api/campaigns/${selectedCampaign.id}`
+          : `${apiUrl}/api/campaigns/${selectedCampaign.id}/${action}`,
+        {
+          method: action === 'delete' ? 'DELETE' : 'POST',
+          headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to ${action} campaign`);
+      }
+
+      toast({
+        title: 'Success',
+        description: data.message,
+      });
+
+      if (action === 'delete') {
+        setCampaignFilter('all');
+      }
+      fetchCampaigns();
+      fetchCalls();
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const formatCost = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+  const openBudgetDialog = () => {
+    setBudgetInput(selectedCampaign?.budgetCap !== undefined ? (selectedCampaign.budgetCap / 100).toString() : '');
+    setBudgetOpen(true);
+  };
+
+  // Budget caps can only be changed by admins; an empty amount removes the cap
+  const handleSaveBudget = async () => {
+    if (!selectedCampaign) return;
+
+    const dollars = budgetInput.trim() === '' ? null : Number(budgetInput);
+    if (dollars !== null && (!Number.isFinite(dollars) || dollars < 0)) {
+      toast({
+        title: 'Error',
+        description: 'Enter a budget of 0 or more, or leave it empty for no cap',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      const token = localStorage.getItem('token');
+      const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
+
+      const response = await fetch(`${apiUrl}/api/admin/campaigns/${selectedCampaign.id}/budget`, {
+        method: 'PATCH',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ budgetCap: dollars === null ? null : Math.round(dollars * 100) }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update budget');
+      }
+
+      toast({
+        title: 'Success',
+        description: data.message,
+      });
+      setBudgetOpen(false);
+      fetchCampaigns();
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleQueueAction = async (action: 'pause' | 'resume' | 'cancel') => {
+    try {
+      const token = localStorage.getItem('token');
+      const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
+
+      const response = await fetch(`${apiUrl}/api/bulk-calls/${action}`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        // Cancelling is scoped to the selected campaign, pausing always applies to the whole queue
+        body: JSON.stringify(action === 'cancel' && selectedCampaign ? { campaignId: selectedCampaign.id } : {}),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to ${action} call queue`);
+      }
+
+      toast({
+        title: 'Success',
+        description: data.message,
+      });
+
+      fetchCalls();
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  };
 
   const handleSearch = () => {
     setPagination(prev => ({ ...prev, page: 1 }));
@@ -199,15 +423,20 @@ export default function BulkCallsPage() {
 
   const getStatusBadge = (status: string) => {
     const variants: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
-      pending: 'secondary',
-      processing: 'default',
+      queued: 'secondary',
+      dialing: 'default',
+      ringing: 'default',
+      in_progress: 'default',
       completed: 'outline',
+      no_answer: 'secondary',
+      busy: 'secondary',
       failed: 'destructive',
+      cancelled: 'secondary',
     };
 
     return (
       <Badge variant={variants[status] || 'default'}>
-        {status.charAt(0).toUpperCase() + status.slice(1)}
+        {STATUS_LABELS[status as CallStatus] || status}
       </Badge>
     );
   };
@@ -236,10 +465,16 @@ export default function BulkCallsPage() {
       </div>
 
       {/* Upload Section */}
-      <BulkCallUpload />
+      <BulkCallUpload
+        campaigns={campaigns}
+        onUploadComplete={() => {
+          fetchCampaigns();
+          fetchCalls();
+        }}
+      />
 
       {/* Summary Cards */}
-      <div className="grid gap-4 md:grid-cols-5">
+      <div className="grid gap-4 md:grid-cols-6">
         <Card>
           <CardHeader className="pb-3">
             <CardTitle className="text-sm font-medium">Total</CardTitle>
@@ -250,18 +485,20 @@ export default function BulkCallsPage() {
         </Card>
         <Card>
           <CardHeader className="pb-3">
-            <CardTitle className="text-sm font-medium text-gray-600">Pending</CardTitle>
+            <CardTitle className="text-sm font-medium text-gray-600">Queued</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-gray-600">{summary.pending}</div>
+            <div className="text-2xl font-bold text-gray-600">{summary.queued}</div>
           </CardContent>
         </Card>
         <Card>
           <CardHeader className="pb-3">
-            <CardTitle className="text-sm font-medium text-blue-600">Processing</CardTitle>
+            <CardTitle className="text-sm font-medium text-blue-600">Live</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-blue-600">{summary.processing}</div>
+            <div className="text-2xl font-bold text-blue-600">
+              {summary.dialing + summary.ringing + summary.in_progress}
+            </div>
           </CardContent>
         </Card>
         <Card>
@@ -272,6 +509,14 @@ export default function BulkCallsPage() {
             <div className="text-2xl font-bold text-green-600">{summary.completed}</div>
           </CardContent>
         </Card>
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-medium text-amber-600">Unreached</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-amber-600">{summary.no_answer + summary.busy}</div>
+          </CardContent>
+        </Card>
         <Card>
           <CardHeader className="pb-3">
             <CardTitle className="text-sm font-medium text-red-600">Failed</CardTitle>
@@ -286,7 +531,19 @@ export default function BulkCallsPage() {
       <Card>
         <CardHeader>
           <div className="flex items-center justify-between">
-            <CardTitle>Call Status</CardTitle>
+            <div className="flex items-center gap-2">
+              <CardTitle>Call Status</CardTitle>
+              {queuePaused && <Badge variant="secondary">Queue paused</Badge>}
+              {selectedCampaign && (
+                <span className="text-sm text-muted-foreground">
+                  Spent {formatCost(selectedCampaign.spent)}
+                  {selectedCampaign.budgetCap !== undefined && <> of {formatCost(selectedCampaign.budgetCap)}</>}
+                </span>
+              )}
+              {selectedCampaign?.budgetCap !== undefined && selectedCampaign.spent >= selectedCampaign.budgetCap && (
+                <Badge variant="destructive">Budget reached</Badge>
+              )}
+            </div>
             <div className="flex items-center gap-2">
               <Button
                 variant="outline"
@@ -297,7 +554,83 @@ export default function BulkCallsPage() {
                 <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
                 Refresh
               </Button>
-              {summary.failed > 0 && (
+              <ExportCallsButton
+                filters={{
+                  status: statusFilter !== 'all' ? statusFilter : undefined,
+                  campaignId: campaignFilter !== 'all' ? campaignFilter : undefined,
+                }}
+              />
+              {!selectedCampaign && !queuePaused && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleQueueAction('pause')}
+                >
+                  <Pause className="h-4 w-4 mr-2" />
+                  Pause Queue
+                </Button>
+              )}
+              {!selectedCampaign && queuePaused && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleQueueAction('resume')}
+                >
+                  <Play className="h-4 w-4 mr-2" />
+                  Resume Queue
+                </Button>
+              )}
+              {selectedCampaign?.status === 'active' && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleCampaignAction('pause')}
+                >
+                  <Pause className="h-4 w-4 mr-2" />
+                  Pause Campaign
+                </Button>
+              )}
+              {selectedCampaign?.status === 'paused' && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleCampaignAction('resume')}
+                >
+                  <Play className="h-4 w-4 mr-2" />
+                  Resume Campaign
+                </Button>
+              )}
+              {selectedCampaign && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={openBudgetDialog}
+                >
+                  <Wallet className="h-4 w-4 mr-2" />
+                  Set Budget
+                </Button>
+              )}
+              {selectedCampaign && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setDeleteCampaignOpen(true)}
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete Campaign
+                </Button>
+              )}
+              {summary.queued > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCancelQueueOpen(true)}
+                >
+                  <XCircle className="h-4 w-4 mr-2" />
+                  Cancel Pending
+                </Button>
+              )}
+              {summary.failed + summary.no_answer + summary.busy + summary.cancelled > 0 && (
                 <Button
                   variant="outline"
                   size="sm"
@@ -332,16 +665,34 @@ export default function BulkCallsPage() {
                 <Search className="h-4 w-4" />
               </Button>
             </div>
+            <Select
+              value={campaignFilter}
+              onValueChange={(value) => {
+                setCampaignFilter(value);
+                setPagination(prev => ({ ...prev, page: 1 }));
+              }}
+            >
+              <SelectTrigger className="w-[220px]">
+                <SelectValue placeholder="Filter by campaign" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Campaigns</SelectItem>
+                {campaigns.map(campaign => (
+                  <SelectItem key={campaign.id} value={campaign.id}>
+                    {campaign.name}{campaign.status === 'paused' ? ' (paused)' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             <Select value={statusFilter} onValueChange={setStatusFilter}>
               <SelectTrigger className="w-[180px]">
                 <SelectValue placeholder="Filter by status" />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Status</SelectItem>
-                <SelectItem value="pending">Pending</SelectItem>
-                <SelectItem value="processing">Processing</SelectItem>
-                <SelectItem value="completed">Completed</SelectItem>
-                <SelectItem value="failed">Failed</SelectItem>
+                {(Object.keys(STATUS_LABELS) as CallStatus[]).map(status => (
+                  <SelectItem key={status} value={status}>{STATUS_LABELS[status]}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -468,6 +819,69 @@ export default function BulkCallsPage() {
         open={interactionDialogOpen}
         onOpenChange={setInteractionDialogOpen}
       />
+
+      {/* Cancel Pending Calls Confirmation Dialog */}
+      <AlertDialog open={cancelQueueOpen} onOpenChange={setCancelQueueOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel pending calls?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {summary.queued} queued calls{selectedCampaign ? <> in <strong>{selectedCampaign.name}</strong></> : ''} will
+              be cancelled and not dialed. Calls already in progress are not affected. Cancelled calls can be retried later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Calls</AlertDialogCancel>
+            <AlertDialogAction onClick={() => handleQueueAction('cancel')} className="bg-red-600 hover:bg-red-700">
+              Cancel Pending
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Campaign Budget Dialog */}
+      <AlertDialog open={budgetOpen} onOpenChange={setBudgetOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Campaign budget</AlertDialogTitle>
+            <AlertDialogDescription>
+              Dialing for <strong>{selectedCampaign?.name}</strong> stops once the next call could take its spend
+              over this amount. Leave it empty for no cap.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            placeholder="Budget in USD"
+            value={budgetInput}
+            onChange={(e) => setBudgetInput(e.target.value)}
+          />
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <Button onClick={handleSaveBudget}>Save Budget</Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Delete Campaign Confirmation Dialog */}
+      <AlertDialog open={deleteCampaignOpen} onOpenChange={setDeleteCampaignOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this campaign?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This action cannot be undone. This will permanently delete{' '}
+              <strong>{selectedCampaign?.name}</strong> and all {selectedCampaign?.totalContacts ?? 0} of its contacts.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => handleCampaignAction('delete')} className="bg-red-600 hover:bg-red-700">
+              Delete Campaign
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -26,6 +26,9 @@ export default function AdminDashboard() {
   
   const recognitionRef = useRef<any>(null);
   const synthRef = useRef<SpeechSynthesis | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  // Mirrors messages for the speech recognition callback, which is created once
+  const messagesRef = useRef<Message[]>([]);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
 
@@ -36,23 +39,28 @@ export default function AdminDashboard() {
       text,
       timestamp: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
     };
-    setMessages((prev) => [...prev, newMessage]);
+    messagesRef.current = [...messagesRef.current, newMessage];
+    setMessages(messagesRef.current);
     return newMessage;
   };
   
   const processQuery = async (userText: string) => {
       console.log('Processing query:', userText);
       setIsLoading(true);
+      const history = messagesRef.current.map(({ type, text }) => ({ role: type, text }));
       handleNewMessage('user', userText);
       
       try {
         console.log('Calling voiceQueryProcess...');
-        const result = await voiceQueryProcess({ userText });
+        const user = JSON.parse(localStorage.getItem('user') || '{}');
+        const result = await voiceQueryProcess({ userText, history, voice: user.assistantVoice });
         console.log('Got result:', result);
         handleNewMessage('ai', result.aiText);
         
-        // Speak the AI response
-        if (synthRef.current && result.aiText) {
+        // Speak the AI response, in the voice chosen in Settings when the server rendered it
+        if (result.aiAudioUrl) {
+          playAudio(result.aiAudioUrl, result.aiText);
+        } else if (synthRef.current && result.aiText) {
           speakText(result.aiText);
         }
 
@@ -69,6 +77,24 @@ export default function AdminDashboard() {
       }
   }
 
+  const playAudio = (url: string, text: string) => {
+    stopSpeaking();
+
+    const audio = new Audio(url);
+    audio.onplay = () => setIsSpeaking(true);
+    audio.onended = () => setIsSpeaking(false);
+    audio.onerror = () => {
+      console.error('Audio playback error, falling back to browser speech');
+      setIsSpeaking(false);
+      speakText(text);
+    };
+    audioRef.current = audio;
+    audio.play().catch((error) => {
+      console.error('Audio playback error:', error);
+      setIsSpeaking(false);
+    });
+  };
+
   const speakText = (text: string) => {
     if (!synthRef.current) {
       console.warn('Speech synthesis not available');
@@ -278,18 +304,20 @@ export default function AdminDashboard() {
   }, [messages]);
 
   const clearChat = () => {
+    messagesRef.current = [];
     setMessages([]);
-    if (synthRef.current) {
-      synthRef.current.cancel();
-      setIsSpeaking(false);
-    }
+    stopSpeaking();
   };
 
   const stopSpeaking = () => {
+    if (audioRef.current) {
+      audioRef.current.pause();
+      audioRef.current = null;
+    }
     if (synthRef.current) {
       synthRef.current.cancel();
-      setIsSpeaking(false);
     }
+    setIsSpeaking(false);
   };
 
 
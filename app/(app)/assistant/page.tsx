@@ -35,6 +35,12 @@ export default function AssistantPage() {
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
 
+  // Voice chosen in Settings, stored with the logged-in user
+  const getAssistantVoice = (): string | undefined => {
+    const user = JSON.parse(localStorage.getItem('user') || '{}');
+    return user.assistantVoice;
+  };
+
   const handleNewMessage = (type: 'user' | 'ai', text: string, audioUrl?: string) => {
     const newMessage: Message = {
       id: Date.now().toString(),
@@ -50,7 +56,7 @@ export default function AssistantPage() {
   const processQuery = async (audioDataUri: string) => {
     setIsLoading(true);
     try {
-      const result: VoiceQueryProcessOutput = await voiceQueryProcess({ audioDataUri });
+      const result: VoiceQueryProcessOutput = await voiceQueryProcess({ audioDataUri, voice: getAssistantVoice() });
       handleNewMessage('user', result.userText);
       const aiMessage = handleNewMessage('ai', result.aiText, result.aiAudioUrl);
 
@@ -132,7 +138,7 @@ export default function AssistantPage() {
     setIsLoading(true);
 
     try {
-      const result: TextQueryProcessOutput = await textQueryProcess({ text: inputValue });
+      const result: TextQueryProcessOutput = await textQueryProcess({ text: inputValue, voice: getAssistantVoice() });
       const aiMessage = handleNewMessage('ai', result.aiText, result.aiAudioUrl);
 
       if (result.aiAudioUrl) {
@@ -9,6 +9,7 @@ import { Input } from "@/components/ui/input";
 import { Phone, Clock, Search, Loader2, RefreshCw, Eye, Calendar, User } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { CallInteractionDialog } from '@/components/CallInteractionDialog';
+import { ExportCallsButton } from '@/components/ExportCallsButton';
 
 interface CallHistory {
   id: string;
@@ -19,6 +20,12 @@ interface CallHistory {
   bolnaCallId?: string;
   callAttempts: number;
   lastAttemptAt?: string;
+  analysis?: {
+    summary: string;
+    sentiment: 'positive' | 'neutral' | 'negative';
+    disposition: 'interested' | 'callback' | 'not_interested' | 'wrong_number';
+    nextAction: string;
+  };
   createdAt: string;
 }
 
@@ -27,6 +34,10 @@ export default function HistoryPage() {
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [dispositionFilter, setDispositionFilter] = useState<string>('all');
+  const [sentimentFilter, setSentimentFilter] = useState<string>('all');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
   const [selectedCallId, setSelectedCallId] = useState<string | null>(null);
   const [interactionDialogOpen, setInteractionDialogOpen] = useState(false);
   const { toast } = useToast();
@@ -69,14 +80,41 @@ export default function HistoryPage() {
     const matchesSearch = call.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
                          call.phone.toLowerCase().includes(searchQuery.toLowerCase());
     const matchesStatus = statusFilter === 'all' || call.status === statusFilter;
-    return matchesSearch && matchesStatus;
+    const createdDay = call.createdAt.slice(0, 10);
+    const matchesDates = (!fromDate || createdDay >= fromDate) && (!toDate || createdDay <= toDate);
+    const matchesDisposition = dispositionFilter === 'all' || call.analysis?.disposition === dispositionFilter;
+    const matchesSentiment = sentimentFilter === 'all' || call.analysis?.sentiment === sentimentFilter;
+    return matchesSearch && matchesStatus && matchesDates && matchesDisposition && matchesSentiment;
   });
 
+  const hasFilters = !!searchQuery || statusFilter !== 'all' || dispositionFilter !== 'all' ||
+    sentimentFilter !== 'all' || !!fromDate || !!toDate;
+
+  const getDispositionColor = (disposition: string) => {
+    switch (disposition) {
+      case 'interested': return 'default';
+      case 'callback': return 'secondary';
+      case 'not_interested':
+      case 'wrong_number': return 'destructive';
+      default: return 'outline';
+    }
+  };
+
+  const sentimentEmoji: Record<string, string> = {
+    positive: '🙂',
+    neutral: '😐',
+    negative: '🙁',
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'completed': return 'default';
-      case 'processing': return 'secondary';
-      case 'failed': return 'destructive';
+      case 'dialing':
+      case 'ringing':
+      case 'in_progress': return 'secondary';
+      case 'failed':
+      case 'no_answer':
+      case 'busy': return 'destructive';
       default: return 'outline';
     }
   };
@@ -105,10 +143,20 @@ export default function HistoryPage() {
             Review all your outbound call conversations
           </p>
         </div>
-        <Button onClick={fetchCallHistory} variant="outline" size="sm">
-          <RefreshCw className="h-4 w-4 mr-2" />
-          Refresh
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button onClick={fetchCallHistory} variant="outline" size="sm">
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+          <ExportCallsButton
+            filters={{
+              status: statusFilter !== 'all' ? statusFilter : undefined,
+              disposition: dispositionFilter !== 'all' ? dispositionFilter : undefined,
+              from: fromDate || undefined,
+              to: toDate || undefined,
+            }}
+          />
+        </div>
       </div>
 
       <Card>
@@ -137,10 +185,52 @@ export default function HistoryPage() {
               >
                 <option value="all">All Status</option>
                 <option value="completed">Completed</option>
-                <option value="processing">Processing</option>
+                <option value="in_progress">In Progress</option>
+                <option value="ringing">Ringing</option>
+                <option value="dialing">Dialing</option>
+                <option value="no_answer">No Answer</option>
+                <option value="busy">Busy</option>
                 <option value="failed">Failed</option>
-                <option value="pending">Pending</option>
+                <option value="cancelled">Cancelled</option>
+                <option value="queued">Queued</option>
               </select>
+              <select
+                value={dispositionFilter}
+                onChange={(e) => setDispositionFilter(e.target.value)}
+                className="px-3 py-2 border rounded-md bg-background text-sm"
+                aria-label="Disposition"
+              >
+                <option value="all">All Outcomes</option>
+                <option value="interested">Interested</option>
+                <option value="callback">Callback</option>
+                <option value="not_interested">Not Interested</option>
+                <option value="wrong_number">Wrong Number</option>
+              </select>
+              <select
+                value={sentimentFilter}
+                onChange={(e) => setSentimentFilter(e.target.value)}
+                className="px-3 py-2 border rounded-md bg-background text-sm"
+                aria-label="Sentiment"
+              >
+                <option value="all">All Sentiment</option>
+                <option value="positive">Positive</option>
+                <option value="neutral">Neutral</option>
+                <option value="negative">Negative</option>
+              </select>
+              <Input
+                type="date"
+                aria-label="From date"
+                value={fromDate}
+                onChange={(e) => setFromDate(e.target.value)}
+                className="w-full sm:w-40"
+              />
+              <Input
+                type="date"
+                aria-label="To date"
+                value={toDate}
+                onChange={(e) => setToDate(e.target.value)}
+                className="w-full sm:w-40"
+              />
             </div>
           </div>
         </CardHeader>
@@ -156,10 +246,10 @@ export default function HistoryPage() {
             <div className="text-center py-12">
               <Phone className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
               <p className="text-base font-medium text-muted-foreground">
-                {searchQuery || statusFilter !== 'all' ? 'No calls found matching your filters' : 'No call history yet'}
+                {hasFilters ? 'No calls found matching your filters' : 'No call history yet'}
               </p>
               <p className="text-sm text-muted-foreground mt-2">
-                {!searchQuery && statusFilter === 'all' && 'Upload contacts and make calls to see history here'}
+                {!hasFilters && 'Upload contacts and make calls to see history here'}
               </p>
             </div>
           ) : (
@@ -170,6 +260,7 @@ export default function HistoryPage() {
                     <TableHead>Contact</TableHead>
                     <TableHead>Phone</TableHead>
                     <TableHead className="hidden md:table-cell">Status</TableHead>
+                    <TableHead className="hidden md:table-cell">Outcome</TableHead>
                     <TableHead className="hidden lg:table-cell">Attempts</TableHead>
                     <TableHead className="hidden xl:table-cell">Date</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
@@ -199,9 +290,21 @@ export default function HistoryPage() {
                       </TableCell>
                       <TableCell className="hidden md:table-cell">
                         <Badge variant={getStatusColor(call.status)}>
-                          {call.status}
+                          {call.status.replace(/_/g, ' ')}
                         </Badge>
                       </TableCell>
+                      <TableCell className="hidden md:table-cell">
+                        {call.analysis ? (
+                          <div className="flex items-center gap-2" title={call.analysis.summary}>
+                            <Badge variant={getDispositionColor(call.analysis.disposition)}>
+                              {call.analysis.disposition.replace(/_/g, ' ')}
+                            </Badge>
+                            <span aria-label={call.analysis.sentiment}>{sentimentEmoji[call.analysis.sentiment]}</span>
+                          </div>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">-</span>
+                        )}
+                      </TableCell>
                       <TableCell className="hidden lg:table-cell">
                         <div className="flex items-center gap-1">
                           <Clock className="h-3 w-3 text-muted-foreground" />
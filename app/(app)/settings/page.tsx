@@ -1,11 +1,58 @@
+"use client"
+
+import { useEffect, useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { useToast } from "@/hooks/use-toast"
 
 export default function SettingsPage() {
+  const [voice, setVoice] = useState("alloy")
+  const [savingVoice, setSavingVoice] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    const user = JSON.parse(localStorage.getItem("user") || "{}")
+    if (user.assistantVoice) {
+      setVoice(user.assistantVoice)
+    }
+  }, [])
+
+  const saveVoicePreferences = async () => {
+    setSavingVoice(true)
+    try {
+      const token = localStorage.getItem("token")
+      const apiUrl = process.env.NEXT_PUBLIC_API_URL || "http://localhost:5001"
+
+      const response = await fetch(`${apiUrl}/api/auth/profile`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ assistantVoice: voice }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save preferences")
+      }
+
+      // The assistant reads the voice from the stored user
+      const user = JSON.parse(localStorage.getItem("user") || "{}")
+      localStorage.setItem("user", JSON.stringify({ ...user, assistantVoice: data.user.assistantVoice }))
+
+      toast({ title: "Preferences saved", description: "The assistant will reply in the selected voice." })
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error", description: error.message })
+    } finally {
+      setSavingVoice(false)
+    }
+  }
+
   return (
     <div className="space-y-6">
         <h1 className="text-2xl font-bold font-headline">Settings</h1>
@@ -75,7 +122,7 @@ export default function SettingsPage() {
                         </div>
                         <div className="space-y-2">
                             <Label htmlFor="voice">AI Voice</Label>
-                            <Select defaultValue="alloy">
+                            <Select value={voice} onValueChange={setVoice}>
                                 <SelectTrigger id="voice">
                                     <SelectValue placeholder="Select voice" />
                                 </SelectTrigger>
@@ -87,7 +134,9 @@ export default function SettingsPage() {
                             </Select>
                         </div>
                         <p className="text-sm text-muted-foreground">Note: Voice & Language options depend on AI provider capabilities.</p>
-                        <Button>Save Preferences</Button>
+                        <Button onClick={saveVoicePreferences} disabled={savingVoice}>
+                            {savingVoice ? "Saving..." : "Save Preferences"}
+                        </Button>
                     </CardContent>
                 </Card>
             </TabsContent>
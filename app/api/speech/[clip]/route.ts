@@ -0,0 +1,21 @@
+import { readSpeechClip } from '@/ai/synthesizer';
+
+/**
+ * Serve a synthesised assistant reply
+ * GET /api/speech/:clip
+ */
+export async function GET(_request: Request, { params }: { params: { clip: string } }) {
+  const audio = await readSpeechClip(params.clip);
+  if (!audio) {
+    return Response.json({ error: 'Clip not found' }, { status: 404 });
+  }
+
+  return new Response(new Uint8Array(audio), {
+    headers: {
+      'Content-Type': 'audio/wav',
+      'Content-Length': audio.length.toString(),
+      // Clip IDs are content hashes, so a clip never changes
+      'Cache-Control': 'public, max-age=31536000, immutable',
+    },
+  });
+}
@@ -1,46 +1,267 @@
 'use client';
 
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { Upload, FileSpreadsheet, AlertCircle, CheckCircle2, X } from 'lucide-react';
 import { Button } from './ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Alert, AlertDescription } from './ui/alert';
 import { Progress } from './ui/progress';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Checkbox } from './ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { ColumnMappingEditor, ColumnMapping, FilePreview } from './ColumnMappingEditor';
+
+export interface CampaignOption {
+  id: string;
+  name: string;
+  status: 'active' | 'paused' | 'completed';
+}
+
+interface BulkCallUploadProps {
+  campaigns?: CampaignOption[];
+  onUploadComplete?: (result: UploadResponse) => void;
+}
+
+const NEW_CAMPAIGN = 'new';
+
+type DuplicateStrategy = 'skip' | 'update' | 'insert';
+
+const DUPLICATE_STRATEGY_LABELS: Record<DuplicateStrategy, string> = {
+  skip: 'Skip duplicates',
+  update: 'Update existing contacts',
+  insert: 'Insert anyway',
+};
+
+interface MappingTemplate {
+  id: string;
+  name: string;
+  mapping: ColumnMapping;
+}
+
+interface ImportJob {
+  id: string;
+  campaignId: string;
+  fileName: string;
+  sheets: string[];
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  progress: number;
+  processedRows: number;
+  validRows: number;
+  savedContacts: number;
+  updatedContacts: number;
+  duplicateStrategy: DuplicateStrategy;
+  duplicatesFound: number;
+  duplicates: Array<{
+    row: string;
+    name: string;
+    phone: string;
+    match: 'file' | 'existing';
+    matchedRow?: string;
+    action: 'skipped' | 'updated' | 'inserted';
+  }>;
+  suppressed: number;
+  suppressedRows: Array<{
+    name: string;
+    phone: string;
+  }>;
+  errorCount: number;
+  errors: string[];
+  failureReason?: string;
+}
 
 interface UploadResponse {
   message: string;
-  summary: {
-    totalRows: number;
-    validRows: number;
-    savedContacts: number;
-    errors: number;
-    duplicatesFound: number;
-  };
-  contacts: Array<{
+  campaign: {
     id: string;
     name: string;
-    phone: string;
     status: string;
-  }>;
-  errors: string[];
-  duplicates: string[];
+  };
+  importJob: ImportJob;
 }
 
-export function BulkCallUpload() {
+const IMPORT_POLL_INTERVAL = 1000; // ms
+
+export function BulkCallUpload({ campaigns = [], onUploadComplete }: BulkCallUploadProps) {
   const [file, setFile] = useState<File | null>(null);
+  const [campaignId, setCampaignId] = useState<string>(NEW_CAMPAIGN);
+  const [campaignName, setCampaignName] = useState('');
+  const [campaignPurpose, setCampaignPurpose] = useState('');
+  const [duplicateStrategy, setDuplicateStrategy] = useState<DuplicateStrategy>('skip');
   const [uploading, setUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [uploadResult, setUploadResult] = useState<UploadResponse | null>(null);
+  const [importJob, setImportJob] = useState<ImportJob | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<FilePreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [selectedSheets, setSelectedSheets] = useState<string[]>([]);
+  const [templates, setTemplates] = useState<MappingTemplate[]>([]);
+  const [templateName, setTemplateName] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const pollTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-  const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+  const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
+
+  const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
   const ALLOWED_TYPES = ['.csv', '.xlsx', '.xls'];
 
+  const fetchTemplates = async () => {
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`${apiUrl}/api/mapping-templates`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch mapping templates');
+      }
+
+      const data = await response.json();
+      setTemplates(data.templates);
+    } catch (err: any) {
+      console.error('Fetch templates error:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchTemplates();
+    return () => {
+      if (pollTimerRef.current) clearTimeout(pollTimerRef.current);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const loadPreview = async (selectedFile: File, sheet?: string) => {
+    setPreviewing(true);
+    setPreview(null);
+    setMapping(null);
+    if (!sheet) setSelectedSheets([]);
+
+    try {
+      const token = localStorage.getItem('token');
+      if (!token) {
+        throw new Error('Authentication required. Please login.');
+      }
+
+      const formData = new FormData();
+      formData.append('file', selectedFile);
+      if (sheet) {
+        formData.append('sheet', sheet);
+      }
+
+      const response = await fetch(`${apiUrl}/api/bulk-calls/preview`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+        body: formData,
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to read file');
+      }
+
+      setPreview(data);
+      setMapping(data.suggestedMapping);
+      if (!sheet && data.sheet) setSelectedSheets([data.sheet]);
+    } catch (err: any) {
+      console.error('Preview error:', err);
+      setError(err.message || 'Failed to read file');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleApplyTemplate = (templateId: string) => {
+    const template = templates.find(t => t.id === templateId);
+    if (!template || !preview) return;
+
+    // Keep only the columns this file actually has
+    const present = (header?: string) => !!header && preview.headers.includes(header);
+    setMapping({
+      fields: Object.fromEntries(Object.entries(template.mapping.fields).filter(([, h]) => present(h))),
+      variables: Object.fromEntries(Object.entries(template.mapping.variables).filter(([, h]) => present(h))),
+    });
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!mapping || !templateName.trim()) return;
+
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`${apiUrl}/api/mapping-templates`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name: templateName.trim(), mapping }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save template');
+      }
+
+      setTemplateName('');
+      fetchTemplates();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save template');
+    }
+  };
+
+  const handleToggleSheet = (sheet: string, checked: boolean) => {
+    setSelectedSheets(prev => checked ? [...prev, sheet] : prev.filter(s => s !== sheet));
+  };
+
+  // Follow a background import until it finishes
+  const pollImportJob = async (result: UploadResponse) => {
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`${apiUrl}/api/bulk-calls/imports/${result.importJob.id}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch import progress');
+      }
+
+      const job: ImportJob = data.importJob;
+      setImportJob(job);
+
+      if (job.status === 'completed' || job.status === 'failed') {
+        pollTimerRef.current = null;
+        if (job.status === 'failed') {
+          setError(job.failureReason || 'Import failed');
+        }
+        onUploadComplete?.({ ...result, importJob: job });
+        return;
+      }
+    } catch (err: any) {
+      console.error('Import progress error:', err);
+    }
+
+    pollTimerRef.current = setTimeout(() => pollImportJob(result), IMPORT_POLL_INTERVAL);
+  };
+
+  const mappingComplete = !!mapping?.fields.name && !!mapping?.fields.phone;
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
     setError(null);
     setUploadResult(null);
+    setImportJob(null);
 
     if (!selectedFile) return;
 
@@ -53,11 +274,12 @@ export function BulkCallUpload() {
 
     // Validate file size
     if (selectedFile.size > MAX_FILE_SIZE) {
-      setError(`File size exceeds 5MB. Please upload a smaller file.`);
+      setError(`File size exceeds 50MB. Please upload a smaller file.`);
       return;
     }
 
     setFile(selectedFile);
+    loadPreview(selectedFile);
   };
 
   const handleUpload = async () => {
@@ -69,11 +291,25 @@ export function BulkCallUpload() {
     setUploading(true);
     setError(null);
     setUploadProgress(0);
+    setImportJob(null);
+    if (pollTimerRef.current) clearTimeout(pollTimerRef.current);
 
     try {
       const formData = new FormData();
       formData.append('file', file);
-      formData.append('checkDuplicates', 'true');
+      formData.append('duplicateStrategy', duplicateStrategy);
+      if (mapping) {
+        formData.append('mapping', JSON.stringify(mapping));
+      }
+      if (selectedSheets.length > 0) {
+        formData.append('sheets', JSON.stringify(selectedSheets));
+      }
+      if (campaignId === NEW_CAMPAIGN) {
+        if (campaignName.trim()) formData.append('campaignName', campaignName.trim());
+        if (campaignPurpose.trim()) formData.append('purpose', campaignPurpose.trim());
+      } else {
+        formData.append('campaignId', campaignId);
+      }
 
       // Get token from localStorage
       const token = localStorage.getItem('token');
@@ -81,8 +317,6 @@ export function BulkCallUpload() {
         throw new Error('Authentication required. Please login.');
       }
 
-      const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
-
       // Simulate progress (since we can't track actual upload progress easily)
       const progressInterval = setInterval(() => {
         setUploadProgress(prev => Math.min(prev + 10, 90));
@@ -106,7 +340,14 @@ export function BulkCallUpload() {
       }
 
       setUploadResult(data);
+      setImportJob(data.importJob);
+      setCampaignName('');
+      setCampaignPurpose('');
+      pollImportJob(data);
       setFile(null);
+      setPreview(null);
+      setMapping(null);
+      setSelectedSheets([]);
       if (fileInputRef.current) {
         fileInputRef.current.value = '';
       }
@@ -121,8 +362,12 @@ export function BulkCallUpload() {
 
   const handleRemoveFile = () => {
     setFile(null);
+    setPreview(null);
+    setMapping(null);
+    setSelectedSheets([]);
     setError(null);
     setUploadResult(null);
+    setImportJob(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -136,10 +381,75 @@ export function BulkCallUpload() {
           Upload Contact List
         </CardTitle>
         <CardDescription>
-          Upload a CSV or Excel file (.csv, .xlsx, .xls) with contact information. Maximum file size: 5MB
+          Upload a CSV or Excel file (.csv, .xlsx, .xls) with contact information. Maximum file size: 50MB
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
+        {/* Campaign */}
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="campaign">Campaign</Label>
+            <Select value={campaignId} onValueChange={setCampaignId} disabled={uploading}>
+              <SelectTrigger id="campaign">
+                <SelectValue placeholder="Select campaign" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NEW_CAMPAIGN}>+ New campaign</SelectItem>
+                {campaigns.map(campaign => (
+                  <SelectItem key={campaign.id} value={campaign.id}>
+                    {campaign.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {campaignId === NEW_CAMPAIGN && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="campaign-name">Campaign Name</Label>
+                <Input
+                  id="campaign-name"
+                  placeholder="Defaults to the file name"
+                  value={campaignName}
+                  onChange={(e) => setCampaignName(e.target.value)}
+                  disabled={uploading}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="campaign-purpose">Script Purpose</Label>
+                <Input
+                  id="campaign-purpose"
+                  placeholder="e.g. Policy renewal reminder"
+                  value={campaignPurpose}
+                  onChange={(e) => setCampaignPurpose(e.target.value)}
+                  disabled={uploading}
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Duplicates */}
+        <div className="space-y-2">
+          <Label htmlFor="duplicate-strategy">Duplicate Numbers</Label>
+          <Select
+            value={duplicateStrategy}
+            onValueChange={(value) => setDuplicateStrategy(value as DuplicateStrategy)}
+            disabled={uploading}
+          >
+            <SelectTrigger id="duplicate-strategy" className="w-[260px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(DUPLICATE_STRATEGY_LABELS) as DuplicateStrategy[]).map(strategy => (
+                <SelectItem key={strategy} value={strategy}>
+                  {DUPLICATE_STRATEGY_LABELS[strategy]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         {/* File Input */}
         <div className="flex items-center gap-4">
           <div className="flex-1">
@@ -183,12 +493,105 @@ export function BulkCallUpload() {
           </div>
         )}
 
+        {/* Sheets */}
+        {file && preview && preview.sheets.length > 1 && (
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="preview-sheet">Preview Sheet</Label>
+              <Select
+                value={preview.sheet}
+                onValueChange={(sheet) => loadPreview(file, sheet)}
+                disabled={uploading || previewing}
+              >
+                <SelectTrigger id="preview-sheet" className="w-[220px]">
+                  <SelectValue placeholder="Select sheet" />
+                </SelectTrigger>
+                <SelectContent>
+                  {preview.sheets.map(sheet => (
+                    <SelectItem key={sheet} value={sheet}>
+                      {sheet}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Sheets to Import</Label>
+              <div className="flex flex-wrap gap-4">
+                {preview.sheets.map(sheet => (
+                  <label key={sheet} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={selectedSheets.includes(sheet)}
+                      onCheckedChange={(checked) => handleToggleSheet(sheet, checked === true)}
+                      disabled={uploading}
+                    />
+                    {sheet}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500">
+                Every selected sheet is imported with the mapping below.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {/* Column Mapping */}
+        {previewing && (
+          <p className="text-sm text-gray-600">Reading columns...</p>
+        )}
+        {preview && mapping && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-end gap-2">
+              {templates.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Mapping Template</Label>
+                  <Select onValueChange={handleApplyTemplate} disabled={uploading}>
+                    <SelectTrigger className="w-[220px]">
+                      <SelectValue placeholder="Apply a saved mapping" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {templates.map(template => (
+                        <SelectItem key={template.id} value={template.id}>
+                          {template.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="flex items-center gap-2 ml-auto">
+                <Input
+                  placeholder="Template name"
+                  value={templateName}
+                  onChange={(e) => setTemplateName(e.target.value)}
+                  className="w-[200px]"
+                  disabled={uploading}
+                />
+                <Button
+                  variant="outline"
+                  onClick={handleSaveTemplate}
+                  disabled={uploading || !mappingComplete || !templateName.trim()}
+                >
+                  Save Mapping
+                </Button>
+              </div>
+            </div>
+            <ColumnMappingEditor
+              preview={preview}
+              mapping={mapping}
+              onChange={setMapping}
+              disabled={uploading}
+            />
+          </div>
+        )}
+
         {/* Upload Progress */}
         {uploading && (
           <div className="space-y-2">
             <Progress value={uploadProgress} />
             <p className="text-sm text-center text-gray-600">
-              {uploadProgress < 90 ? 'Uploading...' : 'Processing contacts...'}
+              {uploadProgress < 90 ? 'Uploading...' : 'Starting import...'}
             </p>
           </div>
         )}
@@ -201,36 +604,80 @@ export function BulkCallUpload() {
           </Alert>
         )}
 
+        {/* Import Progress */}
+        {uploadResult && importJob && (importJob.status === 'pending' || importJob.status === 'processing') && (
+          <div className="space-y-2">
+            <Progress value={importJob.progress} />
+            <p className="text-sm text-center text-gray-600">
+              Importing {uploadResult.importJob.fileName}: {importJob.processedRows} rows read, {importJob.savedContacts} contacts saved
+            </p>
+          </div>
+        )}
+
         {/* Success Result */}
-        {uploadResult && (
+        {uploadResult && importJob && importJob.status === 'completed' && (
           <Alert className="border-green-200 bg-green-50">
             <CheckCircle2 className="h-4 w-4 text-green-600" />
             <AlertDescription>
               <div className="space-y-2">
-                <p className="font-semibold text-green-900">{uploadResult.message}</p>
+                <p className="font-semibold text-green-900">Contacts imported successfully</p>
+                <p className="text-sm text-green-800">Campaign: {uploadResult.campaign.name}</p>
                 <div className="grid grid-cols-2 gap-2 text-sm text-green-800">
-                  <div>Total Rows: {uploadResult.summary.totalRows}</div>
-                  <div>Valid Rows: {uploadResult.summary.validRows}</div>
-                  <div>Saved Contacts: {uploadResult.summary.savedContacts}</div>
-                  <div>Errors: {uploadResult.summary.errors}</div>
-                  {uploadResult.summary.duplicatesFound > 0 && (
+                  <div>Total Rows: {importJob.processedRows}</div>
+                  <div>Valid Rows: {importJob.validRows}</div>
+                  <div>Saved Contacts: {importJob.savedContacts}</div>
+                  <div>Errors: {importJob.errorCount}</div>
+                  {importJob.duplicatesFound > 0 && (
+                    <div className="col-span-2 text-yellow-700">
+                      ⚠️ {importJob.duplicatesFound} duplicate(s) found
+                      {importJob.updatedContacts > 0 && <>, {importJob.updatedContacts} existing contact(s) updated</>}
+                    </div>
+                  )}
+                  {importJob.suppressed > 0 && (
                     <div className="col-span-2 text-yellow-700">
-                      ⚠️ {uploadResult.summary.duplicatesFound} duplicate(s) found
+                      🚫 {importJob.suppressed} contact(s) skipped: on the do-not-call list
                     </div>
                   )}
                 </div>
-                {uploadResult.errors.length > 0 && (
+                {importJob.errors.length > 0 && (
                   <details className="mt-2">
                     <summary className="cursor-pointer text-sm font-medium">
-                      View Errors ({uploadResult.errors.length})
+                      View Errors ({importJob.errorCount})
                     </summary>
                     <ul className="mt-2 space-y-1 text-xs text-red-600 max-h-32 overflow-y-auto">
-                      {uploadResult.errors.map((err, idx) => (
+                      {importJob.errors.map((err, idx) => (
                         <li key={idx}>{err}</li>
                       ))}
                     </ul>
                   </details>
                 )}
+                {importJob.duplicates.length > 0 && (
+                  <details className="mt-2">
+                    <summary className="cursor-pointer text-sm font-medium">
+                      View Duplicates ({importJob.duplicatesFound})
+                    </summary>
+                    <ul className="mt-2 space-y-1 text-xs text-yellow-700 max-h-32 overflow-y-auto">
+                      {importJob.duplicates.map((duplicate, idx) => (
+                        <li key={idx}>
+                          {duplicate.row}: {duplicate.name} ({duplicate.phone}) -{' '}
+                          {duplicate.match === 'file' ? `same number as ${duplicate.matchedRow}` : 'already saved'}, {duplicate.action}
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+                {importJob.suppressedRows.length > 0 && (
+                  <details className="mt-2">
+                    <summary className="cursor-pointer text-sm font-medium">
+                      View Do-Not-Call Matches ({importJob.suppressed})
+                    </summary>
+                    <ul className="mt-2 space-y-1 text-xs text-yellow-700 max-h-32 overflow-y-auto">
+                      {importJob.suppressedRows.map((contact, idx) => (
+                        <li key={idx}>{contact.name} ({contact.phone})</li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
               </div>
             </AlertDescription>
           </Alert>
@@ -239,7 +686,7 @@ export function BulkCallUpload() {
         {/* Upload Button */}
         <Button
           onClick={handleUpload}
-          disabled={!file || uploading}
+          disabled={!file || uploading || previewing || (!!preview && !mappingComplete)}
           className="w-full"
         >
           {uploading ? (
@@ -258,8 +705,9 @@ export function BulkCallUpload() {
           <ul className="text-xs text-blue-800 space-y-1 list-disc list-inside">
             <li>Required columns: <strong>name</strong>, <strong>phone</strong></li>
             <li>Optional columns: city, email, notes</li>
-            <li>Phone numbers should be 10-15 digits</li>
+            <li>Phone numbers without a country code are read in the campaign or account region (India by default)</li>
             <li>First row should contain column headers</li>
+            <li>Excel workbooks with several sheets can import any of them (same columns on each)</li>
           </ul>
           <p className="text-xs text-blue-700 mt-2">
             Example: name, phone, city, email, notes
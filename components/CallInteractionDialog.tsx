@@ -9,6 +9,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Phone, Clock, User, AlertCircle, Download, Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { TranscriptViewer, TranscriptTurn } from '@/components/TranscriptViewer';
 
 interface CallInteractionDialogProps {
   callId: string | null;
@@ -23,10 +24,14 @@ interface CallInteraction {
   status: string;
   conversationTime?: number;
   transcript?: string;
+  transcriptTurns?: TranscriptTurn[];
   recordingUrl?: string;
+  playbackUrl?: string; // Signed link to our archived copy of the recording
+  recordingExpiredAt?: string;
   callStatus?: string;
   hangupBy?: string;
   hangupReason?: string;
+  variables?: Record<string, string>;
   extractedData?: Record<string, any>;
   costBreakdown?: {
     llm?: number;
@@ -35,6 +40,13 @@ interface CallInteraction {
     synthesizer?: number;
     transcriber?: number;
   };
+  analysis?: {
+    summary: string;
+    sentiment: string;
+    disposition: string;
+    nextAction: string;
+    analyzedAt: string;
+  };
   createdAt?: string;
   updatedAt?: string;
   cached?: boolean;
@@ -65,6 +77,9 @@ export function CallInteractionDialog({ callId, open, onOpenChange }: CallIntera
       }
 
       const data: CallInteraction = await response.json();
+      if (data.playbackUrl) {
+        data.playbackUrl = `${apiUrl}${data.playbackUrl}`;
+      }
       setInteraction(data);
     } catch (error: any) {
       toast({
@@ -203,14 +218,11 @@ export function CallInteractionDialog({ callId, open, onOpenChange }: CallIntera
                           </CardTitle>
                         </CardHeader>
                         <CardContent>
-                          {interaction.transcript ? (
-                            <ScrollArea className="h-[400px] w-full">
-                              <div className="prose prose-sm max-w-none">
-                                <pre className="whitespace-pre-wrap text-sm leading-relaxed bg-muted/50 p-4 rounded-lg font-mono">
-                                  {interaction.transcript}
-                                </pre>
-                              </div>
-                            </ScrollArea>
+                          {interaction.transcriptTurns && interaction.transcriptTurns.length > 0 ? (
+                            <TranscriptViewer
+                              turns={interaction.transcriptTurns}
+                              recordingUrl={interaction.playbackUrl || interaction.recordingUrl}
+                            />
                           ) : (
                             <div className="text-center py-16">
                               <div className="text-5xl mb-4">📭</div>
@@ -235,7 +247,7 @@ export function CallInteractionDialog({ callId, open, onOpenChange }: CallIntera
                           </CardTitle>
                         </CardHeader>
                         <CardContent>
-                          {interaction.recordingUrl ? (
+                          {interaction.playbackUrl || interaction.recordingUrl ? (
                             <div className="space-y-6">
                               <div className="bg-gradient-to-r from-primary/10 to-blue-500/10 p-6 rounded-xl">
                                 <audio 
@@ -243,13 +255,13 @@ export function CallInteractionDialog({ callId, open, onOpenChange }: CallIntera
                                   className="w-full h-12"
                                   style={{ filter: 'contrast(0.9)' }}
                                 >
-                                  <source src={interaction.recordingUrl} type="audio/mpeg" />
+                                  <source src={interaction.playbackUrl || interaction.recordingUrl} />
                                   Your browser does not support the audio element.
                                 </audio>
                               </div>
                               <div className="flex gap-2">
                                 <Button variant="outline" className="flex-1" asChild>
-                                  <a href={interaction.recordingUrl} download target="_blank" rel="noopener noreferrer">
+                                  <a href={interaction.playbackUrl || interaction.recordingUrl} download target="_blank" rel="noopener noreferrer">
                                     <Download className="h-4 w-4 mr-2" />
                                     Download Recording
                                   </a>
@@ -263,7 +275,9 @@ export function CallInteractionDialog({ callId, open, onOpenChange }: CallIntera
                                 No recording available
                               </div>
                               <div className="text-sm text-muted-foreground mt-2">
-                                The call recording will appear here once available
+                                {interaction.recordingExpiredAt
+                                  ? `The recording was removed on ${new Date(interaction.recordingExpiredAt).toLocaleDateString()} after the retention period`
+                                  : 'The call recording will appear here once available'}
                               </div>
                             </div>
                           )}
@@ -272,6 +286,58 @@ export function CallInteractionDialog({ callId, open, onOpenChange }: CallIntera
                     </TabsContent>
 
                     <TabsContent value="data" className="mt-0 space-y-6">
+                      {/* AI summary of the call */}
+                      {interaction.analysis && (
+                        <Card className="border-2">
+                          <CardHeader className="pb-3">
+                            <CardTitle className="text-base flex items-center gap-2">
+                              <span className="text-2xl">🧠</span>
+                              Call Summary
+                            </CardTitle>
+                          </CardHeader>
+                          <CardContent className="space-y-4">
+                            <div className="flex flex-wrap gap-2">
+                              <Badge className="capitalize">{interaction.analysis.disposition.replace(/_/g, ' ')}</Badge>
+                              <Badge variant="outline" className="capitalize">
+                                {interaction.analysis.sentiment} sentiment
+                              </Badge>
+                            </div>
+                            <p className="text-sm leading-relaxed">{interaction.analysis.summary}</p>
+                            {interaction.analysis.nextAction && (
+                              <div className="p-3 bg-muted/30 rounded-lg border">
+                                <div className="text-xs text-muted-foreground mb-1">Next action</div>
+                                <div className="text-sm font-medium">{interaction.analysis.nextAction}</div>
+                              </div>
+                            )}
+                          </CardContent>
+                        </Card>
+                      )}
+
+                      {/* Contact Variables sent to the agent */}
+                      {interaction.variables && Object.keys(interaction.variables).length > 0 && (
+                        <Card className="border-2">
+                          <CardHeader className="pb-3">
+                            <CardTitle className="text-base flex items-center gap-2">
+                              <span className="text-2xl">🗂️</span>
+                              Contact Variables
+                            </CardTitle>
+                          </CardHeader>
+                          <CardContent>
+                            <div className="grid gap-3">
+                              {Object.entries(interaction.variables).map(([key, value]) => (
+                                <div
+                                  key={key}
+                                  className="flex flex-col sm:flex-row sm:items-center sm:justify-between p-3 bg-muted/30 rounded-lg border"
+                                >
+                                  <span className="font-medium text-sm font-mono mb-1 sm:mb-0">{key}</span>
+                                  <span className="text-sm text-muted-foreground">{value}</span>
+                                </div>
+                              ))}
+                            </div>
+                          </CardContent>
+                        </Card>
+                      )}
+
                       {/* Extracted Data */}
                       <Card className="border-2">
                         <CardHeader className="pb-3">
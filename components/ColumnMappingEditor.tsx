@@ -0,0 +1,152 @@
+'use client';
+
+import React from 'react';
+import { Input } from './ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+
+export type ContactField = 'name' | 'phone' | 'city' | 'email' | 'notes';
+
+export interface ColumnMapping {
+  fields: Partial<Record<ContactField, string>>;
+  variables: Record<string, string>;
+}
+
+export interface FilePreview {
+  sheets: string[]; // Empty for CSV files
+  sheet?: string;
+  headers: string[];
+  sampleRows: Record<string, string>[];
+  totalRows: number;
+  suggestedMapping: ColumnMapping;
+}
+
+const FIELD_LABELS: Record<ContactField, string> = {
+  name: 'Name',
+  phone: 'Phone',
+  city: 'City',
+  email: 'Email',
+  notes: 'Notes',
+};
+
+const IGNORE = 'ignore';
+const VARIABLE = 'variable';
+
+interface ColumnMappingEditorProps {
+  preview: FilePreview;
+  mapping: ColumnMapping;
+  onChange: (mapping: ColumnMapping) => void;
+  disabled?: boolean;
+}
+
+function toVariableName(header: string): string {
+  return header.trim().toLowerCase().replace(/[^a-z0-9_]+/g, '_').replace(/^_+|_+$/g, '') || 'variable';
+}
+
+/**
+ * Lets the user map each column of an uploaded file to a contact field or a custom variable
+ */
+export function ColumnMappingEditor({ preview, mapping, onChange, disabled }: ColumnMappingEditorProps) {
+  const fieldFor = (header: string) =>
+    (Object.keys(mapping.fields) as ContactField[]).find(field => mapping.fields[field] === header);
+
+  const variableFor = (header: string) =>
+    Object.keys(mapping.variables).find(variable => mapping.variables[variable] === header);
+
+  const withoutHeader = (header: string): ColumnMapping => ({
+    fields: Object.fromEntries(Object.entries(mapping.fields).filter(([, h]) => h !== header)),
+    variables: Object.fromEntries(Object.entries(mapping.variables).filter(([, h]) => h !== header)),
+  });
+
+  const handleTargetChange = (header: string, target: string) => {
+    const next = withoutHeader(header);
+
+    if (target === VARIABLE) {
+      let name = toVariableName(header);
+      while (next.variables[name]) {
+        name = `${name}_`;
+      }
+      next.variables[name] = header;
+    } else if (target !== IGNORE) {
+      next.fields[target as ContactField] = header;
+    }
+
+    onChange(next);
+  };
+
+  const handleVariableRename = (header: string, name: string) => {
+    const next = withoutHeader(header);
+    next.variables[name.replace(/[^A-Za-z0-9_]/g, '_')] = header;
+    onChange(next);
+  };
+
+  const sampleFor = (header: string) =>
+    preview.sampleRows.map(row => row[header]).find(value => value && value.trim()) || '-';
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">
+        {preview.totalRows} rows found. Map each column to a contact field or keep it as a custom variable for the agent.
+      </p>
+      <div className="rounded-md border max-h-72 overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Column</TableHead>
+              <TableHead>Sample</TableHead>
+              <TableHead className="w-[320px]">Maps To</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {preview.headers.map(header => {
+              const field = fieldFor(header);
+              const variable = variableFor(header);
+              const target = field || (variable !== undefined ? VARIABLE : IGNORE);
+
+              return (
+                <TableRow key={header}>
+                  <TableCell className="font-medium">{header}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground max-w-[200px] truncate">
+                    {sampleFor(header)}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Select
+                        value={target}
+                        onValueChange={(value) => handleTargetChange(header, value)}
+                        disabled={disabled}
+                      >
+                        <SelectTrigger className="w-[150px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={IGNORE}>Ignore</SelectItem>
+                          {(Object.keys(FIELD_LABELS) as ContactField[]).map(f => (
+                            <SelectItem key={f} value={f}>{FIELD_LABELS[f]}</SelectItem>
+                          ))}
+                          <SelectItem value={VARIABLE}>Custom variable</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      {variable !== undefined && (
+                        <Input
+                          value={variable}
+                          onChange={(e) => handleVariableRename(header, e.target.value)}
+                          placeholder="variable_name"
+                          className="h-9"
+                          disabled={disabled}
+                        />
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+      {(!mapping.fields.name || !mapping.fields.phone) && (
+        <p className="text-sm text-red-600">Map a column to both Name and Phone to continue.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+'use client';
+
+import React, { useMemo, useRef, useState } from 'react';
+import { Search, Play } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { cn } from '@/lib/utils';
+
+export interface TranscriptTurn {
+  speaker: 'agent' | 'contact' | 'unknown';
+  label: string;
+  text: string;
+  start: number;
+  end: number;
+  estimated: boolean;
+}
+
+interface TranscriptViewerProps {
+  turns: TranscriptTurn[];
+  recordingUrl?: string;
+}
+
+const formatTimestamp = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  const mins = Math.floor(whole / 60);
+  const secs = whole % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Highlight every occurrence of the search query in a turn's text
+ */
+function HighlightedText({ text, query }: { text: string; query: string }) {
+  if (!query) {
+    return <>{text}</>;
+  }
+
+  const parts = text.split(new RegExp(`(${escapeRegExp(query)})`, 'gi'));
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.toLowerCase() === query.toLowerCase() ? (
+          <mark key={index} className="bg-yellow-200 rounded px-0.5">{part}</mark>
+        ) : (
+          <React.Fragment key={index}>{part}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
+
+/**
+ * Chat-style transcript with search. Clicking a turn's timestamp plays the
+ * recording from that point, and the turn being spoken is highlighted.
+ */
+export function TranscriptViewer({ turns, recordingUrl }: TranscriptViewerProps) {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [currentTime, setCurrentTime] = useState<number | null>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  const query = searchQuery.trim();
+  const visibleTurns = useMemo(
+    () => turns
+      .map((turn, index) => ({ turn, index }))
+      .filter(({ turn }) => !query || turn.text.toLowerCase().includes(query.toLowerCase())),
+    [turns, query]
+  );
+  const estimated = turns.some(turn => turn.estimated);
+
+  const jumpTo = (seconds: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = seconds;
+    audio.play().catch(() => {
+      // Autoplay can be refused; the position is still set
+    });
+  };
+
+  const isSpeaking = (turn: TranscriptTurn) =>
+    currentTime !== null && currentTime >= turn.start && currentTime < turn.end;
+
+  return (
+    <div className="space-y-4">
+      {recordingUrl && (
+        <audio
+          ref={audioRef}
+          controls
+          className="w-full h-10"
+          onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+        >
+          <source src={recordingUrl} type="audio/mpeg" />
+          Your browser does not support the audio element.
+        </audio>
+      )}
+
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search transcript..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        {query && (
+          <span className="text-xs text-muted-foreground">
+            {visibleTurns.length} of {turns.length} turns match
+          </span>
+        )}
+      </div>
+
+      {estimated && recordingUrl && (
+        <p className="text-xs text-muted-foreground">
+          Timestamps are estimated from the call length because the transcript has none.
+        </p>
+      )}
+
+      <ScrollArea className="h-[400px] w-full">
+        {visibleTurns.length === 0 ? (
+          <div className="text-center py-12 text-sm text-muted-foreground">
+            No turns match &quot;{query}&quot;
+          </div>
+        ) : (
+          <div className="space-y-3 pr-4">
+            {visibleTurns.map(({ turn, index }) => {
+              const fromAgent = turn.speaker === 'agent';
+              return (
+                <div key={index} className={cn('flex', fromAgent ? 'justify-start' : 'justify-end')}>
+                  <div
+                    className={cn(
+                      'max-w-[80%] rounded-lg px-4 py-2 text-sm transition-shadow',
+                      fromAgent ? 'bg-muted' : 'bg-primary text-primary-foreground',
+                      isSpeaking(turn) && 'ring-2 ring-blue-400'
+                    )}
+                  >
+                    <div className="flex items-center justify-between gap-4 mb-1 text-xs opacity-75">
+                      <span className="font-semibold capitalize">{turn.label}</span>
+                      {recordingUrl ? (
+                        <button
+                          type="button"
+                          onClick={() => jumpTo(turn.start)}
+                          className="flex items-center gap-1 font-mono hover:underline"
+                          title="Play from here"
+                        >
+                          <Play className="h-3 w-3" />
+                          {turn.estimated && '~'}{formatTimestamp(turn.start)}
+                        </button>
+                      ) : (
+                        <span className="font-mono">
+                          {turn.estimated && '~'}{formatTimestamp(turn.start)}
+                        </span>
+                      )}
+                    </div>
+                    <p className="whitespace-pre-wrap leading-relaxed">
+                      <HighlightedText text={turn.text} query={query} />
+                    </p>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  );
+}
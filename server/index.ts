@@ -4,11 +4,21 @@ import dotenv from 'dotenv';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import connectDB from './config/db';
+import { WebhookRequest } from './middleware/webhook';
 import authRoutes from './routes/auth';
 import conversationRoutes from './routes/conversations';
 import adminRoutes from './routes/admin';
 import bulkCallsRoutes from './routes/bulk-calls';
+import campaignRoutes from './routes/campaigns';
 import chatRoutes from './routes/chat';
+import webhookRoutes from './routes/webhooks';
+import suppressionRoutes from './routes/suppression';
+import mappingTemplateRoutes from './routes/mapping-templates';
+import contactRoutes from './routes/contacts';
+import recordingRoutes from './routes/recordings';
+import { migrateLegacyStatuses } from './jobs/callProcessor';
+import { startScheduler, stopScheduler } from './jobs/scheduler';
+import { backfillContacts } from './services/contacts';
 
 // Load environment variables from project root
 dotenv.config({ path: path.resolve(process.cwd(), '.env.local') });
@@ -22,7 +32,12 @@ app.use(cors({
   origin: process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3001',
   credentials: true,
 }));
-app.use(express.json());
+app.use(express.json({
+  // Keep the raw payload around so webhook signatures can be verified
+  verify: (req, _res, buf) => {
+    (req as WebhookRequest).rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: true }));
 
 // Request logging middleware
@@ -45,7 +60,13 @@ app.use('/api/auth', authRoutes);
 app.use('/api/conversations', conversationRoutes);
 app.use('/api/admin', adminRoutes);
 app.use('/api/bulk-calls', bulkCallsRoutes);
+app.use('/api/campaigns', campaignRoutes);
 app.use('/api/chat', chatRoutes);
+app.use('/api/webhooks', webhookRoutes);
+app.use('/api/suppression', suppressionRoutes);
+app.use('/api/mapping-templates', mappingTemplateRoutes);
+app.use('/api/contacts', contactRoutes);
+app.use('/api/recordings', recordingRoutes);
 
 // 404 handler
 app.use((req: Request, res: Response) => {
@@ -66,6 +87,9 @@ app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
 
 // Connect to MongoDB and start server
 connectDB()
+  .then(() => migrateLegacyStatuses())
+  .then(() => backfillContacts())
+  .then(() => startScheduler())
   .then(() => {
     app.listen(PORT, () => {
       console.log(`\n🚀 Server running on port ${PORT}`);
@@ -81,6 +105,9 @@ connectDB()
 // Graceful shutdown
 process.on('SIGINT', async () => {
   console.log('\n🛑 Shutting down server...');
+  await stopScheduler().catch(error => {
+    console.error('Error stopping job scheduler:', error);
+  });
   process.exit(0);
 });
 
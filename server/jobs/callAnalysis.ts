@@ -0,0 +1,76 @@
+import BulkCallQueue, { IBulkCallQueue, CALL_DISPOSITIONS, CALL_SENTIMENTS } from '../models/BulkCallQueue';
+import Campaign from '../models/Campaign';
+import { callSummaryProcess } from '../../ai/flows/call-summary-processing';
+
+// Calls analysed per sweep, to stay well inside the model's rate limits
+const ANALYSIS_BATCH_SIZE = 10;
+
+// Give up on a transcript after this many failed analyses
+const MAX_ANALYSIS_ATTEMPTS = 3;
+
+function isAnalysisConfigured(): boolean {
+  // Read environment variable inside function after dotenv loads
+  const key = process.env.GOOGLE_API_KEY;
+  return !!key && key !== 'YOUR_GOOGLE_API_KEY_HERE';
+}
+
+/**
+ * Summarise one call's transcript and tag its sentiment, disposition and next action
+ */
+export async function analyseCall(call: IBulkCallQueue): Promise<void> {
+  const campaign = call.campaignId ? await Campaign.findById(call.campaignId, { purpose: 1 }) : null;
+
+  const result = await callSummaryProcess({
+    transcript: call.transcript || '',
+    contactName: call.name,
+    campaignPurpose: campaign?.purpose,
+    extractedData: call.extractedData,
+  });
+
+  if (!CALL_DISPOSITIONS.includes(result.disposition) || !CALL_SENTIMENTS.includes(result.sentiment)) {
+    throw new Error(`Unexpected analysis labels: ${result.disposition}, ${result.sentiment}`);
+  }
+
+  call.analysis = {
+    summary: result.summary,
+    sentiment: result.sentiment,
+    disposition: result.disposition,
+    nextAction: result.nextAction,
+    analyzedAt: new Date(),
+  };
+}
+
+/**
+ * Analyse completed calls whose transcript has not been summarised yet. Stops at the
+ * first failure, which is usually a quota error that would fail the rest too.
+ */
+export async function analysePendingCalls(): Promise<void> {
+  if (!isAnalysisConfigured()) {
+    return;
+  }
+
+  try {
+    const calls = await BulkCallQueue.find({
+      status: 'completed',
+      transcript: { $nin: [null, ''] },
+      analysis: null,
+      analysisAttempts: { $lt: MAX_ANALYSIS_ATTEMPTS },
+    })
+      .sort({ updatedAt: 1 })
+      .limit(ANALYSIS_BATCH_SIZE);
+
+    for (const call of calls) {
+      try {
+        await analyseCall(call);
+        await call.save();
+      } catch (error: any) {
+        call.analysisAttempts = (call.analysisAttempts || 0) + 1;
+        await call.save();
+        console.error(`❌ Failed to analyse call ${call._id} (attempt ${call.analysisAttempts}):`, error.message);
+        break;
+      }
+    }
+  } catch (error: any) {
+    console.error('❌ Error analysing calls:', error.message);
+  }
+}
@@ -1,42 +1,129 @@
-import BulkCallQueue from '../models/BulkCallQueue';
-import { triggerOutboundCall, formatPhoneNumber } from '../services/bolna';
+import { Types } from 'mongoose';
+import BulkCallQueue, { IBulkCallQueue, CALL_STATUSES, CallStatus, RETRYABLE_CALL_STATUSES, canTransition } from '../models/BulkCallQueue';
+import { formatPhoneNumber } from '../utils/phone';
+import Campaign, { ICampaign } from '../models/Campaign';
+import QueueControl from '../models/QueueControl';
+import { getTelephonyProvider } from '../services/telephony';
+import { DEFAULT_TIMEZONE, isWithinCallingWindow, getNextWindowStart } from '../utils/timezone';
+import { withLease } from './leases';
+import { scheduleExecutionSync } from './executionSync';
+import { applyRetryPolicy, resolveRetryPolicy, isDoNotCallOutcome } from '../services/retryPolicy';
+import { acquireDialSlot } from '../services/dialer';
+import { isSuppressed } from '../services/suppression';
+import { checkCampaignBudget, getOverBudgetCampaignIds } from '../services/spend';
+import { buildContactVariables, renderTemplate } from '../utils/variables';
+
+// Queue records fetched per batch; pacing and caps are enforced by the dialer
+const BATCH_SIZE = 5;
 
-// Track active processors per user to avoid duplicate processing
-const activeProcessors = new Map<string, boolean>();
+/**
+ * IDs of a user's campaigns that must not be dialed right now: paused or
+ * completed campaigns, those outside their scheduled start/end dates, and
+ * those that have used up their budget cap
+ */
+export async function getBlockedCampaignIds(userId: string) {
+  const now = new Date();
+  const [blocked, overBudget] = await Promise.all([
+    Campaign.distinct('_id', {
+      ownerId: userId,
+      $or: [
+        { status: { $ne: 'active' } },
+        { 'schedule.startAt': { $gt: now } },
+        { 'schedule.endAt': { $lt: now } },
+      ],
+    }),
+    getOverBudgetCampaignIds(userId),
+  ]);
+  return [...blocked, ...overBudget];
+}
+
+/**
+ * Whether the user has paused their whole queue
+ */
+export async function isQueuePaused(userId: string): Promise<boolean> {
+  return !!(await QueueControl.exists({ userId, paused: true }));
+}
+
+/**
+ * Re-read the record and its campaign right before dialing, so a cancel or
+ * campaign pause issued while the batch was in flight takes effect immediately
+ */
+async function isStillDialable(call: IBulkCallQueue): Promise<boolean> {
+  if (!(await BulkCallQueue.exists({ _id: call._id, status: 'queued' }))) {
+    return false;
+  }
+  if (call.campaignId) {
+    return !!(await Campaign.exists({ _id: call.campaignId, status: 'active' }));
+  }
+  return true;
+}
 
-// Delay between calls to avoid rate limiting (in milliseconds)
-const CALL_DELAY = 2000; // 2 seconds
+/**
+ * Move a queued record to "dialing" in one conditional update, so two runs that
+ * loaded the same record can never both dial it. Returns null when the record left
+ * the queue or another run claimed it first.
+ */
+async function claimForDialing(call: IBulkCallQueue): Promise<IBulkCallQueue | null> {
+  const now = new Date();
+  return BulkCallQueue.findOneAndUpdate(
+    { _id: call._id, status: 'queued' },
+    {
+      $set: { status: 'dialing', lastAttemptAt: now },
+      $inc: { callAttempts: 1 },
+      $unset: { nextAttemptAt: 1, nextExecutionSyncAt: 1 },
+      $push: { statusHistory: { from: 'queued', to: 'dialing', at: now, reason: `Attempt ${call.callAttempts + 1}` } },
+    },
+    { new: true }
+  );
+}
 
-// Maximum concurrent calls processing per user
-const MAX_CONCURRENT_CALLS = 5;
+/**
+ * Name of the lease that guards a user's queue across server instances
+ */
+export function queueLeaseName(userId: string): string {
+  return `call-queue:${userId}`;
+}
 
 /**
  * Process pending calls in queue for a specific user
  */
 export async function processCallQueue(userId: string): Promise<void> {
-  // Check if processor is already running for this user
-  if (activeProcessors.get(userId)) {
-    console.log(`⏳ Call processor already running for user ${userId}`);
-    return;
+  try {
+    // Only one processor per user across all instances; the lease is heartbeated while running
+    const ran = await withLease(queueLeaseName(userId), () => runCallQueue(userId));
+    if (!ran) {
+      console.log(`⏳ Call processor already running for user ${userId}`);
+    }
+  } catch (error: any) {
+    console.error(`❌ Call processor error for user ${userId}:`, error.message);
   }
+}
 
-  activeProcessors.set(userId, true);
+async function runCallQueue(userId: string): Promise<void> {
   console.log(`\n🚀 Starting call processor for user ${userId}`);
 
   try {
     let processedCount = 0;
     let successCount = 0;
     let failedCount = 0;
+    let deferredCount = 0;
+    let stopReason: string | null = null;
+    const campaigns = new Map<string, ICampaign | null>();
+    // Campaigns found over budget during this run, so their calls are not fetched again
+    const overBudgetCampaignIds: Types.ObjectId[] = [];
 
     // Process in batches to avoid overwhelming the system
     while (true) {
-      // Get next batch of pending calls
+      // Get next batch of pending calls, skipping campaigns that cannot be dialed
+      const blockedCampaignIds = await getBlockedCampaignIds(userId);
       const pendingCalls = await BulkCallQueue.find({
         userId,
-        status: 'pending',
+        status: 'queued',
+        campaignId: { $nin: [...blockedCampaignIds, ...overBudgetCampaignIds] },
+        $or: [{ nextAttemptAt: null }, { nextAttemptAt: { $lte: new Date() } }],
       })
         .sort({ createdAt: 1 })
-        .limit(MAX_CONCURRENT_CALLS);
+        .limit(BATCH_SIZE);
 
       if (pendingCalls.length === 0) {
         console.log(`✅ No more pending calls for user ${userId}`);
@@ -46,42 +133,112 @@ export async function processCallQueue(userId: string): Promise<void> {
       console.log(`📞 Processing batch of ${pendingCalls.length} calls...`);
 
       // Process calls with delay between each
-      for (const call of pendingCalls) {
+      for (let call of pendingCalls) {
         try {
-          // Update status to processing
-          call.status = 'processing';
-          call.callAttempts += 1;
-          call.lastAttemptAt = new Date();
-          await call.save();
+          // Look up the campaign once per run to pick its agent and calling window
+          let campaign: ICampaign | null = null;
+          if (call.campaignId) {
+            const key = call.campaignId.toString();
+            if (!campaigns.has(key)) {
+              campaigns.set(key, await Campaign.findById(call.campaignId));
+            }
+            campaign = campaigns.get(key) || null;
+          }
+
+          // Defer contacts outside their allowed calling hours instead of dialing them
+          const callingWindow = call.callingWindow || campaign?.callingWindow;
+          if (callingWindow) {
+            const timezone = call.timezone || campaign?.timezone || DEFAULT_TIMEZONE;
+            if (!isWithinCallingWindow(callingWindow, timezone)) {
+              call.nextAttemptAt = getNextWindowStart(callingWindow, timezone);
+              await call.save();
+              deferredCount++;
+              console.log(`🕒 ${call.name} (${call.phone}) outside calling window, deferred to ${call.nextAttemptAt.toISOString()}`);
+              continue;
+            }
+          }
+
+          // Check control state between dials: a paused queue stops the run, cancelled records are skipped
+          if (await isQueuePaused(userId)) {
+            stopReason = 'queue paused';
+            break;
+          }
+          if (!(await isStillDialable(call))) {
+            continue;
+          }
+
+          // Never dial a number that joined the do-not-call list after it was queued
+          if (await isSuppressed(userId, call.phone)) {
+            call.transitionTo('cancelled', 'Number is on the do-not-call list');
+            call.nextAttemptAt = undefined;
+            await call.save();
+            console.log(`🚫 ${call.name} (${call.phone}) is on the do-not-call list, cancelled`);
+            continue;
+          }
+
+          // Stop dialing a campaign once the next call could take it over its budget. The
+          // campaign is read again because its cap may have changed since it was cached.
+          if (campaign) {
+            campaign = await Campaign.findById(campaign._id);
+            campaigns.set(call.campaignId!.toString(), campaign);
+          }
+          if (campaign?.budgetCap !== undefined && campaign?.budgetCap !== null) {
+            const budget = await checkCampaignBudget(campaign);
+            if (!budget.allowed) {
+              overBudgetCampaignIds.push(campaign._id);
+              console.log(`💸 Campaign ${campaign.name}: ${budget.reason}, leaving its calls queued`);
+              continue;
+            }
+          }
+
+          // Wait for rate limit capacity; when a live-call cap or quota is hit, leave the rest queued
+          const slot = await acquireDialSlot(userId);
+          if (!slot.allowed) {
+            stopReason = slot.reason;
+            break;
+          }
+
+          // Mark as dialing before handing the call to the provider
+          const claimed = await claimForDialing(call);
+          if (!claimed) {
+            continue;
+          }
+          call = claimed;
 
-          // Format phone number
-          const formattedPhone = formatPhoneNumber(call.phone);
+          // Stored numbers are E.164 already; records queued before normalisation are read in the campaign's region
+          const formattedPhone = formatPhoneNumber(call.phone, campaign?.phoneRegion);
 
-          // Trigger outbound call via Bolna
-          const result = await triggerOutboundCall(
+          // Contact fields and custom columns are sent as agent variables; the campaign
+          // purpose may reference them as {variable}
+          const variables = buildContactVariables(call);
+
+          // Trigger outbound call via the configured telephony provider
+          const result = await getTelephonyProvider().triggerOutboundCall(
             formattedPhone,
             call.name,
             userId,
             {
-              city: call.city,
-              email: call.email,
-              notes: call.notes,
-            }
+              ...variables,
+              campaignId: call.campaignId?.toString(),
+              campaignPurpose: campaign?.purpose ? renderTemplate(campaign.purpose, variables) : undefined,
+            },
+            { agentId: campaign?.agentId }
           );
 
           if (result.success && result.callId) {
-            // Update call with success
-            call.status = 'completed';
+            // The provider accepted the call; it stays "dialing" until lifecycle events arrive
             call.bolnaCallId = result.callId;
             call.errorMessage = undefined;
+            scheduleExecutionSync(call);
             await call.save();
 
             successCount++;
-            console.log(`✅ Call ${processedCount + 1}: ${call.name} (${call.phone}) - SUCCESS`);
+            console.log(`✅ Call ${processedCount + 1}: ${call.name} (${call.phone}) - DISPATCHED`);
           } else {
-            // Update call with failure
-            call.status = 'failed';
+            // Update call with failure and schedule a retry if the policy allows
+            call.transitionTo('failed', 'Provider rejected call');
             call.errorMessage = result.error || 'Unknown error';
+            await applyRetryPolicy(call, campaign);
             await call.save();
 
             failedCount++;
@@ -89,36 +246,45 @@ export async function processCallQueue(userId: string): Promise<void> {
           }
 
           processedCount++;
-
-          // Delay before next call to avoid rate limiting
-          if (processedCount < pendingCalls.length) {
-            await delay(CALL_DELAY);
-          }
         } catch (error: any) {
           console.error(`❌ Error processing call ${call._id}:`, error.message);
 
-          // Update call with error
-          call.status = 'failed';
-          call.errorMessage = error.message || 'Processing error';
-          await call.save();
+          // Update call with error and schedule a retry if the policy allows. A webhook or
+          // requeue may have moved the record on since it was loaded, so work from the
+          // stored copy and leave it alone when it can no longer fail.
+          try {
+            const current = await BulkCallQueue.findById(call._id);
+            if (current && canTransition(current.status, 'failed')) {
+              current.transitionTo('failed', 'Processing error');
+              current.errorMessage = error.message || 'Processing error';
+              await applyRetryPolicy(current);
+              await current.save();
+            }
+          } catch (recordError: any) {
+            console.error(`❌ Failed to record error for call ${call._id}:`, recordError.message);
+          }
 
           failedCount++;
           processedCount++;
         }
       }
 
+      if (stopReason) {
+        console.log(`⏸️ Stopped dialing for user ${userId}: ${stopReason}`);
+        break;
+      }
+
       // Brief pause between batches
       await delay(1000);
     }
 
     console.log(`\n📊 Call processing complete for user ${userId}:`);
     console.log(`   Total processed: ${processedCount}`);
-    console.log(`   ✅ Successful: ${successCount}`);
-    console.log(`   ❌ Failed: ${failedCount}\n`);
+    console.log(`   ✅ Dispatched: ${successCount}`);
+    console.log(`   ❌ Failed: ${failedCount}`);
+    console.log(`   🕒 Deferred: ${deferredCount}\n`);
   } catch (error: any) {
     console.error(`❌ Call processor error for user ${userId}:`, error.message);
-  } finally {
-    activeProcessors.delete(userId);
   }
 }
 
@@ -129,8 +295,13 @@ export async function processAllPendingCalls(): Promise<void> {
   try {
     console.log('\n🔄 Processing all pending calls across all users...');
 
-    // Get unique user IDs with pending calls
-    const userIds = await BulkCallQueue.distinct('userId', { status: 'pending' });
+    // Get unique user IDs with queued calls, leaving paused queues alone
+    const pausedUserIds = await QueueControl.distinct('userId', { paused: true });
+    const userIds = await BulkCallQueue.distinct('userId', {
+      userId: { $nin: pausedUserIds },
+      status: 'queued',
+      $or: [{ nextAttemptAt: null }, { nextAttemptAt: { $lte: new Date() } }],
+    });
 
     console.log(`Found ${userIds.length} users with pending calls`);
 
@@ -146,25 +317,22 @@ export async function processAllPendingCalls(): Promise<void> {
 }
 
 /**
- * Retry failed calls for a specific user
+ * Retry failed calls for a specific user, within each campaign's retry policy
  */
-export async function retryFailedCalls(userId: string, maxRetries: number = 3): Promise<void> {
+export async function retryFailedCalls(userId: string): Promise<void> {
   try {
     console.log(`\n🔄 Retrying failed calls for user ${userId}...`);
 
-    // Reset failed calls that haven't exceeded max retries
-    const result = await BulkCallQueue.updateMany(
+    // Requeue failed calls that haven't exhausted their attempts
+    const requeued = await requeueCalls(
       {
         userId,
-        status: 'failed',
-        callAttempts: { $lt: maxRetries },
+        status: { $in: RETRYABLE_CALL_STATUSES },
       },
-      {
-        $set: { status: 'pending' },
-      }
+      'Retry requested'
     );
 
-    console.log(`Reset ${result.modifiedCount} failed calls to pending`);
+    console.log(`Requeued ${requeued} failed calls`);
 
     // Process the queue
     await processCallQueue(userId);
@@ -173,6 +341,77 @@ export async function retryFailedCalls(userId: string, maxRetries: number = 3):
   }
 }
 
+/**
+ * Send matching calls back to the queue for an immediate attempt, recording the
+ * transition on each record. Calls that have used up their campaign's maxAttempts
+ * or ended with a do-not-call outcome are left alone. Returns the number requeued.
+ */
+export async function requeueCalls(filter: Record<string, any>, reason: string): Promise<number> {
+  const calls = await BulkCallQueue.find(filter);
+  const campaigns = new Map<string, ICampaign | null>();
+  let requeued = 0;
+
+  for (const call of calls) {
+    if (call.status === 'queued' || isDoNotCallOutcome(call)) {
+      continue;
+    }
+
+    const key = call.campaignId?.toString() || '';
+    if (!campaigns.has(key)) {
+      campaigns.set(key, key ? await Campaign.findById(call.campaignId) : null);
+    }
+    if (call.callAttempts >= resolveRetryPolicy(campaigns.get(key)).maxAttempts) {
+      continue;
+    }
+
+    call.transitionTo('queued', reason);
+    call.nextAttemptAt = undefined;
+    await call.save();
+    requeued++;
+  }
+
+  return requeued;
+}
+
+/**
+ * Cancel matching calls that are still waiting to be dialed. Returns the number cancelled.
+ */
+export async function cancelQueuedCalls(filter: Record<string, any>, reason: string): Promise<number> {
+  const calls = await BulkCallQueue.find({ ...filter, status: 'queued' });
+
+  for (const call of calls) {
+    call.transitionTo('cancelled', reason);
+    call.nextAttemptAt = undefined;
+    await call.save();
+  }
+
+  return calls.length;
+}
+
+/**
+ * Bring records written before the queued/dialing status model up to date.
+ * Legacy "pending" records are queued again; "processing" ones become "dialing"
+ * when they reached the provider and "queued" otherwise.
+ */
+export async function migrateLegacyStatuses(): Promise<void> {
+  try {
+    const collection = BulkCallQueue.collection;
+    const pending = await collection.updateMany({ status: 'pending' }, { $set: { status: 'queued' } });
+    const dispatched = await collection.updateMany(
+      { status: 'processing', bolnaCallId: { $exists: true, $ne: null } },
+      { $set: { status: 'dialing' } }
+    );
+    const stalled = await collection.updateMany({ status: 'processing' }, { $set: { status: 'queued' } });
+
+    const migrated = pending.modifiedCount + dispatched.modifiedCount + stalled.modifiedCount;
+    if (migrated > 0) {
+      console.log(`🔧 Migrated ${migrated} bulk call records to the new status model`);
+    }
+  } catch (error: any) {
+    console.error('Error migrating legacy call statuses:', error.message);
+  }
+}
+
 /**
  * Utility function to delay execution
  */
@@ -181,12 +420,17 @@ function delay(ms: number): Promise<void> {
 }
 
 /**
- * Get queue statistics for a user
+ * Get queue statistics for a user, optionally limited to one campaign
  */
-export async function getQueueStats(userId: string) {
+export async function getQueueStats(userId: string, campaignId?: string) {
   try {
+    const match: Record<string, any> = { userId };
+    if (campaignId) {
+      match.campaignId = new Types.ObjectId(campaignId);
+    }
+
     const stats = await BulkCallQueue.aggregate([
-      { $match: { userId } },
+      { $match: match },
       {
         $group: {
           _id: '$status',
@@ -195,16 +439,13 @@ export async function getQueueStats(userId: string) {
       },
     ]);
 
-    const summary = {
-      total: 0,
-      pending: 0,
-      processing: 0,
-      completed: 0,
-      failed: 0,
-    };
+    const summary = { total: 0 } as { total: number } & Record<CallStatus, number>;
+    CALL_STATUSES.forEach(status => {
+      summary[status] = 0;
+    });
 
     stats.forEach(item => {
-      summary[item._id as keyof typeof summary] = item.count;
+      summary[item._id as CallStatus] = item.count;
       summary.total += item.count;
     });
 
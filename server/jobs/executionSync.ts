@@ -0,0 +1,114 @@
+import BulkCallQueue, { IBulkCallQueue, ACTIVE_CALL_STATUSES } from '../models/BulkCallQueue';
+import { getTelephonyProvider, CallExecution } from '../services/telephony';
+import { normalizeCallStatus, applyExecutionData, applyLifecycleEvent, isFinalExecution } from '../services/callEvents';
+import { applyRetryPolicy } from '../services/retryPolicy';
+import { suppressIfOptedOut } from '../services/suppression';
+
+// Records synced per sweep, so a large backlog is spread over several sweeps
+const SYNC_BATCH_SIZE = 50;
+
+// Backoff between polls of the same execution (in milliseconds)
+const INITIAL_SYNC_DELAY = 60000; // 1 minute
+const MAX_SYNC_DELAY = 30 * 60000; // 30 minutes
+
+// Stop polling executions this long after the call was dialed
+const DEFAULT_SYNC_CUTOFF_HOURS = 24;
+
+function getSyncCutoffMs(): number {
+  // Read environment variable inside function after dotenv loads
+  const hours = Number(process.env.EXECUTION_SYNC_CUTOFF_HOURS);
+  return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_SYNC_CUTOFF_HOURS) * 60 * 60 * 1000;
+}
+
+/**
+ * Schedule the first sync for a call the provider just accepted
+ */
+export function scheduleExecutionSync(call: IBulkCallQueue): void {
+  call.executionSyncAttempts = 0;
+  call.executionSyncedAt = undefined;
+  call.nextExecutionSyncAt = new Date(Date.now() + INITIAL_SYNC_DELAY);
+}
+
+/**
+ * Note that execution details were applied to a call. Final executions stop the
+ * sync; anything else is polled again after an exponential backoff.
+ */
+export function recordExecutionSync(call: IBulkCallQueue, execution: CallExecution): void {
+  if (isFinalExecution(execution)) {
+    call.executionSyncedAt = new Date();
+    call.nextExecutionSyncAt = undefined;
+    return;
+  }
+
+  // Leave calls that are not being tracked (e.g. dispatched before the sync existed) alone
+  if (call.nextExecutionSyncAt) {
+    backOffExecutionSync(call);
+  }
+}
+
+function backOffExecutionSync(call: IBulkCallQueue): void {
+  call.executionSyncAttempts = (call.executionSyncAttempts || 0) + 1;
+  const delayMs = Math.min(INITIAL_SYNC_DELAY * 2 ** call.executionSyncAttempts, MAX_SYNC_DELAY);
+  call.nextExecutionSyncAt = new Date(Date.now() + delayMs);
+}
+
+/**
+ * Pull the execution for one call from the provider and persist its transcript,
+ * recording, cost and extracted data, advancing the status like a webhook would
+ */
+async function syncExecution(call: IBulkCallQueue): Promise<void> {
+  try {
+    const execution = await getTelephonyProvider().getCallStatus(call.bolnaCallId!);
+
+    applyExecutionData(call, execution);
+    await suppressIfOptedOut(call);
+    const event = normalizeCallStatus(execution.status);
+    if (event && applyLifecycleEvent(call, event, execution.telephony_data?.hangup_reason)) {
+      await applyRetryPolicy(call);
+    }
+    recordExecutionSync(call, execution);
+  } catch (error: any) {
+    console.error(`❌ Failed to sync execution ${call.bolnaCallId}:`, error.message);
+    backOffExecutionSync(call);
+  }
+
+  await call.save();
+}
+
+/**
+ * Sync every dispatched call whose next poll is due. Calls dialed longer ago than
+ * the cutoff are given up on and keep whatever details were stored.
+ */
+export async function syncPendingExecutions(): Promise<void> {
+  try {
+    const now = new Date();
+    const cutoff = new Date(now.getTime() - getSyncCutoffMs());
+
+    const expired = await BulkCallQueue.updateMany(
+      { nextExecutionSyncAt: { $ne: null }, lastAttemptAt: { $lt: cutoff } },
+      { $unset: { nextExecutionSyncAt: 1 } }
+    );
+    if (expired.modifiedCount > 0) {
+      console.log(`⌛ Stopped syncing ${expired.modifiedCount} execution(s) past the cutoff`);
+    }
+
+    const calls = await BulkCallQueue.find({
+      bolnaCallId: { $ne: null },
+      nextExecutionSyncAt: { $lte: now },
+      status: { $in: [...ACTIVE_CALL_STATUSES, 'completed', 'no_answer', 'busy', 'failed'] },
+    })
+      .sort({ nextExecutionSyncAt: 1 })
+      .limit(SYNC_BATCH_SIZE);
+
+    for (const call of calls) {
+      await syncExecution(call);
+    }
+
+    const synced = calls.filter(call => call.executionSyncedAt).length;
+    if (calls.length > 0) {
+      console.log(`🔄 Synced ${calls.length} execution(s), ${synced} final`);
+    }
+  } catch (error: any) {
+    console.error('❌ Error syncing call executions:', error.message);
+  }
+}
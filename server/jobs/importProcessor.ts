@@ -0,0 +1,179 @@
+import fs from 'fs';
+import BulkCallQueue from '../models/BulkCallQueue';
+import ImportJob, { IImportJob, MAX_REPORTED_IMPORT_ROWS } from '../models/ImportJob';
+import { streamContactFile, ImportChunk } from '../utils/fileParser';
+import { resolveDuplicates } from '../services/duplicates';
+import { upsertContacts } from '../services/contacts';
+import { getSuppressedPhones, suppressionKey } from '../services/suppression';
+import { resolveTimezone } from '../utils/timezone';
+import { processCallQueue } from './callProcessor';
+import { withLease, isLeaseHeld, LEASE_TTL } from './leases';
+
+/**
+ * Name of the lease held while an import job runs
+ */
+export function importLeaseName(jobId: string): string {
+  return `import:${jobId}`;
+}
+
+/**
+ * Run an import job in the background and remove its uploaded file afterwards
+ */
+export async function runImportJob(jobId: string, filePath: string): Promise<void> {
+  try {
+    const ran = await withLease(importLeaseName(jobId), () => importFile(jobId, filePath));
+    if (!ran) {
+      console.log(`⏳ Import ${jobId} is already running`);
+    }
+  } catch (error: any) {
+    console.error(`❌ Import ${jobId} error:`, error.message);
+    await ImportJob.updateOne(
+      { _id: jobId },
+      { $set: { status: 'failed', failureReason: error.message, completedAt: new Date() } }
+    );
+  } finally {
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+      console.log(`🗑️ Cleaned up temporary file: ${filePath}`);
+    }
+  }
+}
+
+async function importFile(jobId: string, filePath: string): Promise<void> {
+  const job: IImportJob | null = await ImportJob.findById(jobId);
+  if (!job) {
+    return;
+  }
+
+  job.status = 'processing';
+  job.startedAt = new Date();
+  await job.save();
+
+  console.log(`\n📥 Importing ${job.fileName} for user ${job.userId} (job ${jobId})`);
+
+  let dialingStarted = false;
+  // Phones imported from earlier chunks, for duplicates within the file
+  const seenPhones = new Map<string, string>();
+
+  const saveChunk = async (chunk: ImportChunk) => {
+    // Drop rows whose numbers are on the user's do-not-call list
+    const suppressedPhones = await getSuppressedPhones(job.userId, chunk.contacts.map(c => c.phone));
+    const allowed = chunk.contacts.filter(c => !suppressedPhones.has(suppressionKey(c.phone)));
+    const suppressedRows = chunk.contacts
+      .filter(c => suppressedPhones.has(suppressionKey(c.phone)))
+      .map(c => ({ name: c.name, phone: c.phone }));
+
+    // Skip, merge into or insert alongside contacts seen before
+    const { contacts, updated, duplicates } = await resolveDuplicates(
+      job.userId,
+      allowed,
+      job.duplicateStrategy,
+      seenPhones
+    );
+
+    if (contacts.length > 0) {
+      const contactIds = await upsertContacts(job.userId, contacts);
+      await BulkCallQueue.insertMany(
+        contacts.map(contact => ({
+          userId: job.userId,
+          campaignId: job.campaignId,
+          contactId: contactIds.get(contact.phone),
+          name: contact.name,
+          phone: contact.phone,
+          rawPhone: contact.rawPhone,
+          phoneType: contact.phoneType,
+          city: contact.city,
+          email: contact.email,
+          notes: contact.notes,
+          metadata: contact.variables,
+          timezone: resolveTimezone(contact.phone, contact.city),
+          status: 'queued',
+          callAttempts: 0,
+        }))
+      );
+    }
+
+    await ImportJob.updateOne(
+      { _id: jobId },
+      {
+        $set: { progress: chunk.progress, processedRows: chunk.processedRows },
+        $inc: {
+          validRows: chunk.contacts.length,
+          savedContacts: contacts.length,
+          updatedContacts: updated,
+          suppressed: suppressedRows.length,
+          duplicatesFound: duplicates.length,
+          errorCount: chunk.errors.length,
+        },
+        $push: {
+          rowErrors: { $each: chunk.errors, $slice: MAX_REPORTED_IMPORT_ROWS },
+          suppressedRows: { $each: suppressedRows, $slice: MAX_REPORTED_IMPORT_ROWS },
+          duplicateRows: { $each: duplicates, $slice: MAX_REPORTED_IMPORT_ROWS },
+        },
+      }
+    );
+
+    // Start dialing as soon as the first contacts are in, rather than after the whole file
+    if (contacts.length > 0 && !dialingStarted) {
+      dialingStarted = true;
+      processCallQueue(job.userId).catch(error => {
+        console.error('Error starting call processor:', error);
+      });
+    }
+  };
+
+  const result = await streamContactFile(
+    filePath,
+    { mapping: job.mapping, sheets: job.sheets, defaultRegion: job.phoneRegion },
+    saveChunk
+  );
+
+  const finished = await ImportJob.findByIdAndUpdate(
+    jobId,
+    {
+      $set: result.success
+        ? { status: 'completed', progress: 100, processedRows: result.totalRows, completedAt: new Date() }
+        : { status: 'failed', failureReason: result.errors.join('; '), completedAt: new Date() },
+    },
+    { new: true }
+  );
+
+  console.log(
+    `${result.success ? '✅' : '❌'} Import ${jobId} ${result.success ? 'completed' : 'failed'}: ` +
+      `${finished?.savedContacts ?? 0} saved from ${result.totalRows} rows`
+  );
+
+  // Pick up anything queued after the processor's first pass finished
+  if (dialingStarted) {
+    processCallQueue(job.userId).catch(error => {
+      console.error('Error starting call processor:', error);
+    });
+  }
+}
+
+/**
+ * Mark imports whose runner died (no live lease and no progress for a lease period) as failed.
+ * Their uploaded file lived on the dead instance, so they cannot be resumed.
+ */
+export async function failInterruptedImports(): Promise<void> {
+  try {
+    const stale = await ImportJob.find({
+      status: { $in: ['pending', 'processing'] },
+      updatedAt: { $lt: new Date(Date.now() - LEASE_TTL) },
+    });
+
+    for (const job of stale) {
+      if (await isLeaseHeld(importLeaseName(job._id.toString()))) {
+        continue;
+      }
+
+      job.status = 'failed';
+      job.failureReason = 'Import was interrupted. Contacts saved so far were kept; upload the remaining rows again.';
+      job.completedAt = new Date();
+      await job.save();
+      console.log(`⚠️ Marked interrupted import ${job._id} as failed`);
+    }
+  } catch (error: any) {
+    console.error('❌ Error recovering interrupted imports:', error.message);
+  }
+}
@@ -0,0 +1,121 @@
+import os from 'os';
+import crypto from 'crypto';
+import JobLease from '../models/JobLease';
+
+// Identifies this server process as a lease owner
+export const INSTANCE_ID = `${os.hostname()}-${process.pid}-${crypto.randomBytes(4).toString('hex')}`;
+
+// How long a lease stays valid without a heartbeat (in milliseconds)
+export const LEASE_TTL = 60000; // 60 seconds
+
+// How often a running job renews its lease
+const HEARTBEAT_INTERVAL = LEASE_TTL / 3;
+
+// Leases currently held by this instance, so they can be released on shutdown
+const heldLeases = new Set<string>();
+
+/**
+ * Try to take the named lease for this instance. Succeeds only when the lease does
+ * not exist or has expired. Returns false while anyone holds it, including another
+ * job in this same instance, so a lease never guards two runs at once.
+ */
+export async function acquireLease(name: string, ttl: number = LEASE_TTL): Promise<boolean> {
+  if (heldLeases.has(name)) {
+    return false;
+  }
+
+  const now = new Date();
+
+  try {
+    await JobLease.findOneAndUpdate(
+      { name, leaseExpiresAt: { $lt: now } },
+      {
+        $set: {
+          owner: INSTANCE_ID,
+          leaseExpiresAt: new Date(now.getTime() + ttl),
+          heartbeatAt: now,
+          acquiredAt: now,
+        },
+      },
+      { upsert: true, new: true }
+    );
+
+    heldLeases.add(name);
+    return true;
+  } catch (error: any) {
+    // The upsert collides with the unique name while the lease is live
+    if (error.code === 11000) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Extend a lease held by this instance. Returns false if the lease was lost.
+ */
+export async function renewLease(name: string, ttl: number = LEASE_TTL): Promise<boolean> {
+  const now = new Date();
+  const result = await JobLease.updateOne(
+    { name, owner: INSTANCE_ID },
+    { $set: { leaseExpiresAt: new Date(now.getTime() + ttl), heartbeatAt: now } }
+  );
+  return result.matchedCount > 0;
+}
+
+/**
+ * Give up a lease held by this instance
+ */
+export async function releaseLease(name: string): Promise<void> {
+  heldLeases.delete(name);
+  await JobLease.deleteOne({ name, owner: INSTANCE_ID });
+}
+
+/**
+ * Release every lease this instance holds (used on shutdown)
+ */
+export async function releaseAllLeases(): Promise<void> {
+  const names = Array.from(heldLeases);
+  await Promise.all(names.map(name => releaseLease(name)));
+}
+
+/**
+ * Check whether any instance currently holds a live lease with this name
+ */
+export async function isLeaseHeld(name: string): Promise<boolean> {
+  const lease = await JobLease.exists({ name, leaseExpiresAt: { $gte: new Date() } });
+  return !!lease;
+}
+
+/**
+ * Run a job while holding the named lease, heartbeating until it finishes.
+ * Returns false without running the job when another instance holds the lease.
+ */
+export async function withLease(name: string, job: () => Promise<void>): Promise<boolean> {
+  if (!(await acquireLease(name))) {
+    return false;
+  }
+
+  const heartbeat = setInterval(() => {
+    renewLease(name)
+      .then(renewed => {
+        if (!renewed) {
+          console.warn(`⚠️ Lost lease ${name}; another instance may take over`);
+        }
+      })
+      .catch(error => {
+        console.error(`❌ Failed to renew lease ${name}:`, error.message);
+      });
+  }, HEARTBEAT_INTERVAL);
+
+  try {
+    await job();
+  } finally {
+    clearInterval(heartbeat);
+    await releaseLease(name).catch(error => {
+      console.error(`❌ Failed to release lease ${name}:`, error.message);
+    });
+  }
+
+  return true;
+}
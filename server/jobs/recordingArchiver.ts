@@ -0,0 +1,172 @@
+import axios from 'axios';
+import { Readable, Transform, pipeline } from 'stream';
+import BulkCallQueue, { IBulkCallQueue } from '../models/BulkCallQueue';
+import { getRecordingStorage } from '../services/recordingStorage';
+import { recordingExtension } from '../services/recordings';
+
+// Recordings downloaded per sweep
+const ARCHIVE_BATCH_SIZE = 10;
+
+// Give up on a recording URL after this many failed downloads
+const MAX_ARCHIVE_ATTEMPTS = 3;
+
+// Recordings larger than this are not archived
+const MAX_RECORDING_BYTES = 200 * 1024 * 1024; // 200MB
+
+// Longest a single recording download may take (in milliseconds)
+const DOWNLOAD_TIMEOUT = 5 * 60 * 1000; // 5 minutes
+
+// Calls whose recordings are expired per sweep
+const RETENTION_BATCH_SIZE = 500;
+
+function getRetentionDays(): number {
+  // Read environment variable inside function after dotenv loads
+  const days = Number(process.env.RECORDING_RETENTION_DAYS);
+  return Number.isFinite(days) && days > 0 ? days : 0;
+}
+
+/**
+ * Pass bytes through until more than `maxBytes` have been seen, then fail the stream.
+ * axios does not apply maxContentLength to streamed responses.
+ */
+function limitBytes(maxBytes: number): Transform {
+  let received = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      received += chunk.length;
+      if (received > maxBytes) {
+        callback(new Error(`Recording is larger than the ${maxBytes}-byte limit`));
+        return;
+      }
+      callback(null, chunk);
+    },
+  });
+}
+
+/**
+ * Download a call's recording from the provider into recording storage. A copy of an
+ * earlier recording (from a previous attempt) is replaced.
+ */
+export async function archiveRecording(call: IBulkCallQueue): Promise<void> {
+  const storage = getRecordingStorage();
+  const sourceUrl = call.recordingUrl!;
+
+  // The timeout only covers a stalled connection, so the whole download is capped too
+  const controller = new AbortController();
+  const deadline = setTimeout(() => controller.abort(), DOWNLOAD_TIMEOUT);
+
+  try {
+    const response = await axios.get<Readable>(sourceUrl, {
+      responseType: 'stream',
+      timeout: 60000,
+      signal: controller.signal,
+    });
+
+    const declaredSize = Number(response.headers['content-length']);
+    if (declaredSize > MAX_RECORDING_BYTES) {
+      response.data.destroy();
+      throw new Error(`Recording is ${declaredSize} bytes, over the ${MAX_RECORDING_BYTES}-byte limit`);
+    }
+
+    const contentType = (response.headers['content-type'] as string | undefined)?.split(';')[0].trim() || 'audio/mpeg';
+    const key = `${call.userId}/${call._id}-${call.callAttempts}${recordingExtension(contentType, sourceUrl)}`;
+    // Errors from either side are reported by the save below
+    const body = pipeline(response.data, limitBytes(MAX_RECORDING_BYTES), () => {});
+    const stored = await storage.save(key, body);
+
+    const previousKey = call.recordingKey;
+    call.recordingKey = key;
+    call.recordingArchivedUrl = sourceUrl;
+    call.recordingContentType = contentType;
+    call.recordingSize = stored.size;
+    call.recordingArchivedAt = new Date();
+    call.recordingArchiveAttempts = 0;
+
+    if (previousKey && previousKey !== key) {
+      await storage.remove(previousKey);
+    }
+  } finally {
+    clearTimeout(deadline);
+  }
+}
+
+/**
+ * Archive recordings that have not been copied into storage yet, or whose provider
+ * URL changed since they were archived
+ */
+export async function archivePendingRecordings(): Promise<void> {
+  try {
+    const calls = await BulkCallQueue.find({
+      recordingUrl: { $nin: [null, ''] },
+      recordingExpiredAt: null,
+      recordingArchiveAttempts: { $lt: MAX_ARCHIVE_ATTEMPTS },
+      $expr: { $ne: ['$recordingUrl', '$recordingArchivedUrl'] },
+    })
+      .sort({ updatedAt: 1 })
+      .limit(ARCHIVE_BATCH_SIZE);
+
+    let archived = 0;
+    for (const call of calls) {
+      try {
+        await archiveRecording(call);
+        archived++;
+      } catch (error: any) {
+        call.recordingArchiveAttempts = (call.recordingArchiveAttempts || 0) + 1;
+        console.error(`❌ Failed to archive recording for call ${call._id} (attempt ${call.recordingArchiveAttempts}):`, error.message);
+      }
+      await call.save();
+    }
+
+    if (archived > 0) {
+      console.log(`🗄️ Archived ${archived} call recording(s)`);
+    }
+  } catch (error: any) {
+    console.error('❌ Error archiving recordings:', error.message);
+  }
+}
+
+/**
+ * Delete recordings older than RECORDING_RETENTION_DAYS: archived copies along with
+ * their provider link, and provider links of calls that were never archived (measured
+ * from the call attempt), so expired recordings cannot be played back at all.
+ * Without a retention period recordings are kept forever.
+ */
+export async function applyRecordingRetention(): Promise<void> {
+  const retentionDays = getRetentionDays();
+  if (!retentionDays) {
+    return;
+  }
+
+  try {
+    const storage = getRecordingStorage();
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+    const calls = await BulkCallQueue.find({
+      recordingExpiredAt: null,
+      $or: [
+        { recordingArchivedAt: { $lt: cutoff } },
+        { recordingArchivedAt: null, recordingUrl: { $nin: [null, ''] }, lastAttemptAt: { $lt: cutoff } },
+      ],
+    }).limit(RETENTION_BATCH_SIZE);
+
+    for (const call of calls) {
+      try {
+        if (call.recordingKey) {
+          await storage.remove(call.recordingKey);
+        }
+        call.recordingKey = undefined;
+        call.recordingUrl = undefined;
+        call.recordingSize = undefined;
+        call.recordingExpiredAt = new Date();
+        await call.save();
+      } catch (error: any) {
+        console.error(`❌ Failed to remove recording for call ${call._id}:`, error.message);
+      }
+    }
+
+    if (calls.length > 0) {
+      console.log(`🧹 Removed ${calls.length} recording(s) past the ${retentionDays}-day retention period`);
+    }
+  } catch (error: any) {
+    console.error('❌ Error applying recording retention:', error.message);
+  }
+}
@@ -0,0 +1,125 @@
+import BulkCallQueue from '../models/BulkCallQueue';
+import JobLease from '../models/JobLease';
+import { processAllPendingCalls, queueLeaseName } from './callProcessor';
+import { failInterruptedImports } from './importProcessor';
+import { syncPendingExecutions } from './executionSync';
+import { analysePendingCalls } from './callAnalysis';
+import { archivePendingRecordings, applyRecordingRetention } from './recordingArchiver';
+import { LEASE_TTL, withLease, isLeaseHeld, releaseAllLeases, INSTANCE_ID } from './leases';
+
+// How often the queue is swept for due calls (in milliseconds)
+const DEFAULT_SWEEP_INTERVAL = 60000; // 1 minute
+
+const SWEEP_LEASE = 'scheduler:sweep';
+
+let sweepTimer: NodeJS.Timeout | null = null;
+let sweepRunning = false;
+
+/**
+ * Requeue calls left in "dialing" without a provider call ID by a processor that
+ * died mid-dispatch. Only touches users whose queue lease has expired, so calls
+ * being dispatched by a live instance are left alone.
+ */
+export async function recoverStaleWork(): Promise<void> {
+  try {
+    const now = new Date();
+
+    const expired = await JobLease.deleteMany({ leaseExpiresAt: { $lt: now } });
+    if (expired.deletedCount > 0) {
+      console.log(`🧹 Removed ${expired.deletedCount} expired job lease(s)`);
+    }
+
+    const stuckCalls = await BulkCallQueue.find({
+      status: 'dialing',
+      bolnaCallId: null,
+      lastAttemptAt: { $lt: new Date(now.getTime() - LEASE_TTL) },
+    });
+
+    const leaseHeld = new Map<string, boolean>();
+    let recovered = 0;
+
+    for (const call of stuckCalls) {
+      if (!leaseHeld.has(call.userId)) {
+        leaseHeld.set(call.userId, await isLeaseHeld(queueLeaseName(call.userId)));
+      }
+      if (leaseHeld.get(call.userId)) {
+        continue;
+      }
+
+      call.transitionTo('queued', 'Recovered after interrupted dispatch');
+      await call.save();
+      recovered++;
+    }
+
+    if (recovered > 0) {
+      console.log(`♻️ Requeued ${recovered} call(s) interrupted mid-dispatch`);
+    }
+
+    await failInterruptedImports();
+  } catch (error: any) {
+    console.error('❌ Error recovering stale work:', error.message);
+  }
+}
+
+/**
+ * One scheduler tick: recover stale work, dispatch every user's due calls, pull
+ * execution details for dispatched calls that are still missing them, summarise
+ * newly finished transcripts, then archive new recordings and remove expired ones.
+ * Guarded by a lease so only one instance sweeps at a time.
+ */
+export async function runSweep(): Promise<void> {
+  if (sweepRunning) {
+    return;
+  }
+
+  sweepRunning = true;
+  try {
+    await withLease(SWEEP_LEASE, async () => {
+      await recoverStaleWork();
+      await processAllPendingCalls();
+      await syncPendingExecutions();
+      await analysePendingCalls();
+      await archivePendingRecordings();
+      await applyRecordingRetention();
+    });
+  } catch (error: any) {
+    console.error('❌ Scheduler sweep error:', error.message);
+  } finally {
+    sweepRunning = false;
+  }
+}
+
+/**
+ * Start the durable job scheduler. Recovers work left behind by a previous run
+ * and then sweeps the queue periodically.
+ */
+export async function startScheduler(): Promise<void> {
+  if (sweepTimer) {
+    return;
+  }
+
+  const interval = parseInt(process.env.JOB_SWEEP_INTERVAL_MS as string) || DEFAULT_SWEEP_INTERVAL;
+
+  console.log(`⏱️ Job scheduler started (instance ${INSTANCE_ID}, sweep every ${interval / 1000}s)`);
+
+  await recoverStaleWork();
+
+  sweepTimer = setInterval(() => {
+    runSweep();
+  }, interval);
+
+  // Kick off the first sweep right away rather than waiting a full interval
+  runSweep();
+}
+
+/**
+ * Stop sweeping and hand back any leases this instance holds
+ */
+export async function stopScheduler(): Promise<void> {
+  if (sweepTimer) {
+    clearInterval(sweepTimer);
+    sweepTimer = null;
+  }
+
+  await releaseAllLeases();
+}
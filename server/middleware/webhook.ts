@@ -0,0 +1,49 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+
+export interface WebhookRequest extends Request {
+  rawBody?: Buffer;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * Verify that an inbound webhook was sent by someone holding BOLNA_WEBHOOK_SECRET.
+ *
+ * Accepts either an `x-bolna-signature` header containing the hex HMAC-SHA256 of the
+ * raw request body, or the secret itself in `x-webhook-secret` for providers that
+ * cannot sign requests. The secret is never read from the query string, which ends up
+ * in access and proxy logs.
+ */
+export const verifyWebhookSecret = (req: WebhookRequest, res: Response, next: NextFunction) => {
+  const secret = process.env.BOLNA_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('BOLNA_WEBHOOK_SECRET not configured!');
+    return res.status(500).json({ error: 'Server configuration error' });
+  }
+
+  const signatureHeader = req.headers['x-bolna-signature'];
+  if (typeof signatureHeader === 'string' && signatureHeader) {
+    const signature = signatureHeader.replace(/^sha256=/, '');
+    const expected = crypto
+      .createHmac('sha256', secret)
+      .update(req.rawBody || Buffer.from(''))
+      .digest('hex');
+
+    if (!safeEqual(signature, expected)) {
+      return res.status(401).json({ error: 'Invalid webhook signature' });
+    }
+    return next();
+  }
+
+  const sharedSecret = req.headers['x-webhook-secret'];
+  if (typeof sharedSecret === 'string' && safeEqual(sharedSecret, secret)) {
+    return next();
+  }
+
+  return res.status(401).json({ error: 'Webhook secret required' });
+};
@@ -1,30 +1,206 @@
 import mongoose, { Schema, Document, Types } from 'mongoose';
+import { CallingWindowSchema } from './Campaign';
+import { CallingWindow } from '../utils/timezone';
+import { PHONE_TYPES, PhoneType } from '../utils/phone';
+import { TRANSCRIPT_SPEAKERS, TranscriptTurn } from '../utils/transcript';
+
+export const CALL_STATUSES = [
+  'queued',
+  'dialing',
+  'ringing',
+  'in_progress',
+  'completed',
+  'no_answer',
+  'busy',
+  'failed',
+  'cancelled',
+] as const;
+
+export type CallStatus = typeof CALL_STATUSES[number];
+
+// Legal status transitions; anything not listed here is rejected by transitionTo()
+export const CALL_STATUS_TRANSITIONS: Record<CallStatus, CallStatus[]> = {
+  queued: ['dialing', 'failed', 'cancelled'],
+  dialing: ['queued', 'ringing', 'in_progress', 'completed', 'no_answer', 'busy', 'failed'],
+  ringing: ['in_progress', 'completed', 'no_answer', 'busy', 'failed'],
+  in_progress: ['completed', 'failed'],
+  completed: [],
+  no_answer: ['queued'],
+  busy: ['queued'],
+  failed: ['queued'],
+  cancelled: ['queued'],
+};
+
+// Statuses that mean the call is still waiting to be dialed or is live
+export const ACTIVE_CALL_STATUSES: CallStatus[] = ['dialing', 'ringing', 'in_progress'];
+
+// Statuses a user may send back to the queue with a retry
+export const RETRYABLE_CALL_STATUSES: CallStatus[] = ['failed', 'no_answer', 'busy', 'cancelled'];
+
+// Post-call analysis labels produced from the transcript
+export const CALL_DISPOSITIONS = ['interested', 'callback', 'not_interested', 'wrong_number'] as const;
+
+export type CallDisposition = typeof CALL_DISPOSITIONS[number];
+
+export const CALL_SENTIMENTS = ['positive', 'neutral', 'negative'] as const;
+
+export type CallSentiment = typeof CALL_SENTIMENTS[number];
+
+export function canTransition(from: CallStatus, to: CallStatus): boolean {
+  return CALL_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+export interface IStatusTransition {
+  from: CallStatus;
+  to: CallStatus;
+  at: Date;
+  reason?: string;
+  bolnaCallId?: string; // Execution of the attempt that ended when the call was requeued
+}
+
+export interface ICallAnalysis {
+  summary: string;
+  sentiment: CallSentiment;
+  disposition: CallDisposition;
+  nextAction: string;
+  analyzedAt: Date;
+}
 
 export interface IBulkCallQueue extends Document {
   _id: Types.ObjectId;
   userId: string;
+  campaignId?: Types.ObjectId;
+  contactId?: Types.ObjectId; // Directory entry for this number
   name: string;
-  phone: string;
+  phone: string; // E.164
+  rawPhone?: string; // As written in the uploaded file
+  phoneType?: PhoneType;
   city?: string;
   email?: string;
   notes?: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: CallStatus;
+  statusHistory: IStatusTransition[];
   bolnaCallId?: string;
   errorMessage?: string;
   metadata?: Record<string, any>;
   callAttempts: number;
   lastAttemptAt?: Date;
+  nextAttemptAt?: Date;
+  timezone?: string;
+  callingWindow?: CallingWindow;
   // New fields for call interaction data
   conversationTime?: number;
   transcript?: string;
-  recordingUrl?: string;
+  transcriptTurns: TranscriptTurn[]; // The transcript split into speaker turns
+  recordingUrl?: string; // As reported by the provider
+  // Copy of the recording kept in our own storage
+  recordingKey?: string;
+  recordingArchivedUrl?: string; // Provider URL the stored copy was downloaded from
+  recordingContentType?: string;
+  recordingSize?: number;
+  recordingArchivedAt?: Date;
+  recordingArchiveAttempts: number;
+  recordingExpiredAt?: Date; // Set when the retention period removed the recording
   callStatus?: string;
   hangupBy?: string;
+  hangupReason?: string;
   extractedData?: Record<string, any>;
+  totalCost?: number;
+  costBreakdown?: Record<string, number>;
+  analysis?: ICallAnalysis; // AI summary of the transcript
+  analysisAttempts: number;
+  // Background sync of execution details from the provider
+  executionSyncAttempts: number;
+  nextExecutionSyncAt?: Date; // Unset once the execution is final or the sync gives up
+  executionSyncedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
+  transitionTo(status: CallStatus, reason?: string): void;
 }
 
+const StatusTransitionSchema: Schema = new Schema(
+  {
+    from: {
+      type: String,
+      enum: CALL_STATUSES,
+      required: true,
+    },
+    to: {
+      type: String,
+      enum: CALL_STATUSES,
+      required: true,
+    },
+    at: {
+      type: Date,
+      default: Date.now,
+    },
+    reason: {
+      type: String,
+    },
+    bolnaCallId: {
+      type: String,
+    },
+  },
+  { _id: false }
+);
+
+const TranscriptTurnSchema: Schema = new Schema(
+  {
+    speaker: {
+      type: String,
+      enum: TRANSCRIPT_SPEAKERS,
+      required: true,
+    },
+    label: {
+      type: String,
+    },
+    text: {
+      type: String,
+      default: '',
+    },
+    start: {
+      type: Number,
+      default: 0,
+    },
+    end: {
+      type: Number,
+      default: 0,
+    },
+    estimated: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  { _id: false }
+);
+
+const CallAnalysisSchema: Schema = new Schema(
+  {
+    summary: {
+      type: String,
+      required: true,
+    },
+    sentiment: {
+      type: String,
+      enum: CALL_SENTIMENTS,
+      required: true,
+    },
+    disposition: {
+      type: String,
+      enum: CALL_DISPOSITIONS,
+      required: true,
+    },
+    nextAction: {
+      type: String,
+    },
+    analyzedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
 const BulkCallQueueSchema: Schema = new Schema(
   {
     userId: {
@@ -32,6 +208,16 @@ const BulkCallQueueSchema: Schema = new Schema(
       required: [true, 'User ID is required'],
       index: true,
     },
+    campaignId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Campaign',
+      index: true,
+    },
+    contactId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Contact',
+      index: true,
+    },
     name: {
       type: String,
       required: [true, 'Contact name is required'],
@@ -43,6 +229,14 @@ const BulkCallQueueSchema: Schema = new Schema(
       trim: true,
       index: true,
     },
+    rawPhone: {
+      type: String,
+      trim: true,
+    },
+    phoneType: {
+      type: String,
+      enum: PHONE_TYPES,
+    },
     city: {
       type: String,
       trim: true,
@@ -58,13 +252,18 @@ const BulkCallQueueSchema: Schema = new Schema(
     },
     status: {
       type: String,
-      enum: ['pending', 'processing', 'completed', 'failed'],
-      default: 'pending',
+      enum: CALL_STATUSES,
+      default: 'queued',
       index: true,
     },
+    statusHistory: {
+      type: [StatusTransitionSchema],
+      default: [],
+    },
     bolnaCallId: {
       type: String,
       sparse: true,
+      index: true,
     },
     errorMessage: {
       type: String,
@@ -79,24 +278,86 @@ const BulkCallQueueSchema: Schema = new Schema(
     lastAttemptAt: {
       type: Date,
     },
+    nextAttemptAt: {
+      type: Date,
+    },
+    timezone: {
+      type: String,
+      trim: true,
+    },
+    callingWindow: {
+      type: CallingWindowSchema,
+    },
     conversationTime: {
       type: Number,
     },
     transcript: {
       type: String,
     },
+    transcriptTurns: {
+      type: [TranscriptTurnSchema],
+      default: [],
+    },
     recordingUrl: {
       type: String,
     },
+    recordingKey: {
+      type: String,
+    },
+    recordingArchivedUrl: {
+      type: String,
+    },
+    recordingContentType: {
+      type: String,
+    },
+    recordingSize: {
+      type: Number,
+    },
+    recordingArchivedAt: {
+      type: Date,
+    },
+    recordingArchiveAttempts: {
+      type: Number,
+      default: 0,
+    },
+    recordingExpiredAt: {
+      type: Date,
+    },
     callStatus: {
       type: String,
     },
     hangupBy: {
       type: String,
     },
+    hangupReason: {
+      type: String,
+    },
     extractedData: {
       type: Schema.Types.Mixed,
     },
+    totalCost: {
+      type: Number,
+    },
+    costBreakdown: {
+      type: Schema.Types.Mixed,
+    },
+    analysis: {
+      type: CallAnalysisSchema,
+    },
+    analysisAttempts: {
+      type: Number,
+      default: 0,
+    },
+    executionSyncAttempts: {
+      type: Number,
+      default: 0,
+    },
+    nextExecutionSyncAt: {
+      type: Date,
+    },
+    executionSyncedAt: {
+      type: Date,
+    },
   },
   {
     timestamps: true,
@@ -106,6 +367,36 @@ const BulkCallQueueSchema: Schema = new Schema(
 // Compound indexes for efficient queries
 BulkCallQueueSchema.index({ userId: 1, status: 1, createdAt: -1 });
 BulkCallQueueSchema.index({ userId: 1, phone: 1 });
+BulkCallQueueSchema.index({ campaignId: 1, status: 1 });
+BulkCallQueueSchema.index({ status: 1, nextAttemptAt: 1 });
+BulkCallQueueSchema.index({ nextExecutionSyncAt: 1 }, { sparse: true });
+BulkCallQueueSchema.index({ userId: 1, 'analysis.disposition': 1 });
+BulkCallQueueSchema.index({ recordingArchivedAt: 1 }, { sparse: true });
 BulkCallQueueSchema.index({ createdAt: -1 });
 
+// Move the record to a new status, enforcing the transition table and recording history.
+// Re-entering the current status is a no-op so repeated provider events are harmless.
+// Requeueing moves the previous execution ID into the history, so late events from
+// that execution no longer match the record.
+BulkCallQueueSchema.methods.transitionTo = function (status: CallStatus, reason?: string) {
+  const from = this.status as CallStatus;
+  if (from === status) {
+    return;
+  }
+
+  if (!canTransition(from, status)) {
+    throw new Error(`Illegal call status transition: ${from} -> ${status}`);
+  }
+
+  const transition: IStatusTransition = { from, to: status, at: new Date(), reason };
+  if (status === 'queued' && this.bolnaCallId) {
+    transition.bolnaCallId = this.bolnaCallId;
+    this.bolnaCallId = undefined;
+    this.nextExecutionSyncAt = undefined;
+  }
+
+  this.statusHistory.push(transition);
+  this.status = status;
+};
+
 export default mongoose.models.BulkCallQueue || mongoose.model<IBulkCallQueue>('BulkCallQueue', BulkCallQueueSchema);
@@ -0,0 +1,132 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { CallingWindow } from '../utils/timezone';
+import type { RetryPolicy } from '../services/retryPolicy';
+
+export const CAMPAIGN_STATUSES = ['active', 'paused', 'completed'] as const;
+
+export type CampaignStatus = typeof CAMPAIGN_STATUSES[number];
+
+export interface ICampaignSchedule {
+  startAt?: Date;
+  endAt?: Date;
+}
+
+export interface ICampaign extends Document {
+  _id: Types.ObjectId;
+  ownerId: string;
+  name: string;
+  agentId?: string;
+  purpose?: string;
+  schedule?: ICampaignSchedule;
+  callingWindow?: CallingWindow;
+  timezone?: string;
+  phoneRegion?: string; // Region for numbers without a country code, e.g. "IN"
+  retryPolicy?: Partial<RetryPolicy>;
+  budgetCap?: number; // Spend limit in call cost units; dialing stops before it is exceeded
+  status: CampaignStatus;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CampaignScheduleSchema: Schema = new Schema(
+  {
+    startAt: {
+      type: Date,
+    },
+    endAt: {
+      type: Date,
+    },
+  },
+  { _id: false }
+);
+
+export const CallingWindowSchema: Schema = new Schema(
+  {
+    start: {
+      type: String,
+      required: true,
+    },
+    end: {
+      type: String,
+      required: true,
+    },
+    days: {
+      type: [Number],
+      default: [0, 1, 2, 3, 4, 5, 6],
+    },
+  },
+  { _id: false }
+);
+
+// Unset fields fall back to DEFAULT_RETRY_POLICY
+const RetryPolicySchema: Schema = new Schema(
+  {
+    maxAttempts: Number,
+    backoffMultiplier: Number,
+    busyDelayMinutes: Number,
+    noAnswerDelayMinutes: Number,
+    providerErrorDelayMinutes: Number,
+    maxDelayMinutes: Number,
+  },
+  { _id: false }
+);
+
+const CampaignSchema: Schema = new Schema(
+  {
+    ownerId: {
+      type: String,
+      required: [true, 'Owner ID is required'],
+      index: true,
+    },
+    name: {
+      type: String,
+      required: [true, 'Campaign name is required'],
+      trim: true,
+      maxlength: [100, 'Campaign name cannot exceed 100 characters'],
+    },
+    agentId: {
+      type: String,
+      trim: true,
+    },
+    purpose: {
+      type: String,
+      trim: true,
+    },
+    schedule: {
+      type: CampaignScheduleSchema,
+    },
+    callingWindow: {
+      type: CallingWindowSchema,
+    },
+    timezone: {
+      type: String,
+      trim: true,
+    },
+    phoneRegion: {
+      type: String,
+      trim: true,
+      uppercase: true,
+    },
+    retryPolicy: {
+      type: RetryPolicySchema,
+    },
+    budgetCap: {
+      type: Number,
+      min: [0, 'Budget cap cannot be negative'],
+    },
+    status: {
+      type: String,
+      enum: CAMPAIGN_STATUSES,
+      default: 'active',
+      index: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Create indexes for faster queries
+CampaignSchema.index({ ownerId: 1, createdAt: -1 });
+
+export default mongoose.models.Campaign || mongoose.model<ICampaign>('Campaign', CampaignSchema);
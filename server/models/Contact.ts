@@ -0,0 +1,99 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { PHONE_TYPES, PhoneType } from '../utils/phone';
+
+export interface IContactNote {
+  _id: Types.ObjectId;
+  body: string;
+  createdAt: Date;
+}
+
+export interface IContact extends Document {
+  _id: Types.ObjectId;
+  userId: string;
+  phone: string; // E.164, unique per user
+  rawPhone?: string;
+  phoneType?: PhoneType;
+  name: string;
+  city?: string;
+  email?: string;
+  tags: string[];
+  customFields: Record<string, any>;
+  notes: Types.DocumentArray<IContactNote & Types.Subdocument>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ContactNoteSchema: Schema = new Schema(
+  {
+    body: {
+      type: String,
+      required: [true, 'Note text is required'],
+      trim: true,
+      maxlength: [2000, 'Note cannot exceed 2000 characters'],
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+  }
+);
+
+const ContactSchema: Schema = new Schema(
+  {
+    userId: {
+      type: String,
+      required: [true, 'User ID is required'],
+      index: true,
+    },
+    phone: {
+      type: String,
+      required: [true, 'Phone number is required'],
+      trim: true,
+    },
+    rawPhone: {
+      type: String,
+      trim: true,
+    },
+    phoneType: {
+      type: String,
+      enum: PHONE_TYPES,
+    },
+    name: {
+      type: String,
+      required: [true, 'Contact name is required'],
+      trim: true,
+    },
+    city: {
+      type: String,
+      trim: true,
+    },
+    email: {
+      type: String,
+      trim: true,
+      lowercase: true,
+    },
+    tags: {
+      type: [String],
+      default: [],
+    },
+    customFields: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    notes: {
+      type: [ContactNoteSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+    minimize: false,
+  }
+);
+
+// One contact per number per user
+ContactSchema.index({ userId: 1, phone: 1 }, { unique: true });
+ContactSchema.index({ userId: 1, tags: 1 });
+ContactSchema.index({ userId: 1, updatedAt: -1 });
+
+export default mongoose.models.Contact || mongoose.model<IContact>('Contact', ContactSchema);
@@ -9,6 +9,7 @@ export interface IMessage {
 export interface IConversation extends Document {
   _id: Types.ObjectId;
   userId: string;
+  contactId?: Types.ObjectId; // Contact the chat was about, shown on their timeline
   messages: IMessage[];
   createdAt: Date;
   updatedAt: Date;
@@ -40,6 +41,12 @@ const ConversationSchema: Schema = new Schema(
       required: [true, 'User ID is required'],
       index: true,
     },
+    contactId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Contact',
+      sparse: true,
+      index: true,
+    },
     messages: {
       type: [MessageSchema],
       default: [],
@@ -0,0 +1,167 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import type { ColumnMapping } from '../utils/fileParser';
+import { DUPLICATE_STRATEGIES, DuplicateStrategy, DuplicateRow } from '../services/duplicates';
+
+export const IMPORT_STATUSES = ['pending', 'processing', 'completed', 'failed'] as const;
+
+export type ImportStatus = typeof IMPORT_STATUSES[number];
+
+// Row errors, suppressed and duplicate rows kept on the job; every one is still counted
+export const MAX_REPORTED_IMPORT_ROWS = 200;
+
+export interface IImportRow {
+  name: string;
+  phone: string;
+}
+
+export interface IImportJob extends Document {
+  _id: Types.ObjectId;
+  userId: string;
+  campaignId: Types.ObjectId;
+  fileName: string;
+  fileSize: number;
+  sheets: string[];
+  mapping?: ColumnMapping;
+  phoneRegion?: string;
+  duplicateStrategy: DuplicateStrategy;
+  status: ImportStatus;
+  progress: number; // 0-100
+  processedRows: number;
+  validRows: number;
+  savedContacts: number;
+  updatedContacts: number;
+  duplicatesFound: number;
+  duplicateRows: DuplicateRow[];
+  suppressed: number;
+  suppressedRows: IImportRow[];
+  errorCount: number;
+  rowErrors: string[];
+  failureReason?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ImportRowSchema: Schema = new Schema(
+  {
+    name: String,
+    phone: String,
+  },
+  { _id: false }
+);
+
+const DuplicateRowSchema: Schema = new Schema(
+  {
+    row: String,
+    name: String,
+    phone: String,
+    match: String,
+    matchedRow: String,
+    action: String,
+  },
+  { _id: false }
+);
+
+const ImportJobSchema: Schema = new Schema(
+  {
+    userId: {
+      type: String,
+      required: [true, 'User ID is required'],
+    },
+    campaignId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Campaign',
+      required: true,
+    },
+    fileName: {
+      type: String,
+      required: true,
+    },
+    fileSize: {
+      type: Number,
+      default: 0,
+    },
+    sheets: {
+      type: [String],
+      default: [],
+    },
+    mapping: {
+      type: Schema.Types.Mixed,
+    },
+    phoneRegion: {
+      type: String,
+    },
+    duplicateStrategy: {
+      type: String,
+      enum: DUPLICATE_STRATEGIES,
+      default: 'skip',
+    },
+    status: {
+      type: String,
+      enum: IMPORT_STATUSES,
+      default: 'pending',
+      index: true,
+    },
+    progress: {
+      type: Number,
+      default: 0,
+    },
+    processedRows: {
+      type: Number,
+      default: 0,
+    },
+    validRows: {
+      type: Number,
+      default: 0,
+    },
+    savedContacts: {
+      type: Number,
+      default: 0,
+    },
+    updatedContacts: {
+      type: Number,
+      default: 0,
+    },
+    duplicatesFound: {
+      type: Number,
+      default: 0,
+    },
+    duplicateRows: {
+      type: [DuplicateRowSchema],
+      default: [],
+    },
+    suppressed: {
+      type: Number,
+      default: 0,
+    },
+    suppressedRows: {
+      type: [ImportRowSchema],
+      default: [],
+    },
+    errorCount: {
+      type: Number,
+      default: 0,
+    },
+    rowErrors: {
+      type: [String],
+      default: [],
+    },
+    failureReason: {
+      type: String,
+    },
+    startedAt: {
+      type: Date,
+    },
+    completedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+ImportJobSchema.index({ userId: 1, createdAt: -1 });
+
+export default mongoose.models.ImportJob || mongoose.model<IImportJob>('ImportJob', ImportJobSchema);
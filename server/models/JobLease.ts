@@ -0,0 +1,44 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export interface IJobLease extends Document {
+  _id: Types.ObjectId;
+  name: string;
+  owner: string;
+  leaseExpiresAt: Date;
+  heartbeatAt: Date;
+  acquiredAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const JobLeaseSchema: Schema = new Schema(
+  {
+    name: {
+      type: String,
+      required: [true, 'Lease name is required'],
+      unique: true,
+    },
+    owner: {
+      type: String,
+      required: [true, 'Lease owner is required'],
+    },
+    leaseExpiresAt: {
+      type: Date,
+      required: true,
+      index: true,
+    },
+    heartbeatAt: {
+      type: Date,
+      required: true,
+    },
+    acquiredAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export default mongoose.models.JobLease || mongoose.model<IJobLease>('JobLease', JobLeaseSchema);
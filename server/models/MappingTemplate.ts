@@ -0,0 +1,51 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import type { ColumnMapping } from '../utils/fileParser';
+
+export interface IMappingTemplate extends Document {
+  _id: Types.ObjectId;
+  userId: string;
+  name: string;
+  mapping: ColumnMapping;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MappingTemplateSchema: Schema = new Schema(
+  {
+    userId: {
+      type: String,
+      required: [true, 'User ID is required'],
+      index: true,
+    },
+    name: {
+      type: String,
+      required: [true, 'Template name is required'],
+      trim: true,
+      maxlength: [100, 'Template name cannot exceed 100 characters'],
+    },
+    mapping: {
+      fields: {
+        name: String,
+        phone: String,
+        city: String,
+        email: String,
+        notes: String,
+      },
+      // Variable name -> column header
+      variables: {
+        type: Schema.Types.Mixed,
+        default: {},
+      },
+    },
+  },
+  {
+    timestamps: true,
+    minimize: false,
+  }
+);
+
+// Template names are unique per user
+MappingTemplateSchema.index({ userId: 1, name: 1 }, { unique: true });
+
+export default mongoose.models.MappingTemplate ||
+  mongoose.model<IMappingTemplate>('MappingTemplate', MappingTemplateSchema);
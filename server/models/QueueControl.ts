@@ -0,0 +1,34 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export interface IQueueControl extends Document {
+  _id: Types.ObjectId;
+  userId: string;
+  paused: boolean;
+  pausedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One record per user; campaigns are paused through their own status instead
+const QueueControlSchema: Schema = new Schema(
+  {
+    userId: {
+      type: String,
+      required: [true, 'User ID is required'],
+      unique: true,
+    },
+    paused: {
+      type: Boolean,
+      default: false,
+      index: true,
+    },
+    pausedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export default mongoose.models.QueueControl || mongoose.model<IQueueControl>('QueueControl', QueueControlSchema);
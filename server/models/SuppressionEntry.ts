@@ -0,0 +1,53 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export const SUPPRESSION_SOURCES = ['manual', 'import', 'opt_out'] as const;
+
+export type SuppressionSource = typeof SUPPRESSION_SOURCES[number];
+
+export interface ISuppressionEntry extends Document {
+  _id: Types.ObjectId;
+  userId: string;
+  phone: string; // Formatted number used for matching
+  source: SuppressionSource;
+  reason?: string;
+  bulkCallId?: Types.ObjectId; // Call whose outcome added the entry, for opt-outs
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SuppressionEntrySchema: Schema = new Schema(
+  {
+    userId: {
+      type: String,
+      required: [true, 'User ID is required'],
+    },
+    phone: {
+      type: String,
+      required: [true, 'Phone number is required'],
+      trim: true,
+    },
+    source: {
+      type: String,
+      enum: SUPPRESSION_SOURCES,
+      default: 'manual',
+    },
+    reason: {
+      type: String,
+      trim: true,
+    },
+    bulkCallId: {
+      type: Schema.Types.ObjectId,
+      ref: 'BulkCallQueue',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// A number is listed at most once per user
+SuppressionEntrySchema.index({ userId: 1, phone: 1 }, { unique: true });
+SuppressionEntrySchema.index({ userId: 1, createdAt: -1 });
+
+export default mongoose.models.SuppressionEntry ||
+  mongoose.model<ISuppressionEntry>('SuppressionEntry', SuppressionEntrySchema);
@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document, Types } from 'mongoose';
+import { ASSISTANT_VOICES, AssistantVoice } from '../../ai/voices';
 
 export interface IUser extends Document {
   _id: Types.ObjectId;
@@ -7,6 +8,8 @@ export interface IUser extends Document {
   password: string;
   role: 'user' | 'admin' | 'student' | 'teacher' | 'hod' | 'principal';
   isActive: boolean;
+  phoneRegion?: string; // Region for numbers without a country code, e.g. "IN"
+  assistantVoice?: AssistantVoice; // Voice the assistant reads replies in
   createdAt: Date;
   updatedAt: Date;
 }
@@ -45,6 +48,15 @@ const UserSchema: Schema = new Schema(
       type: Boolean,
       default: true,
     },
+    phoneRegion: {
+      type: String,
+      trim: true,
+      uppercase: true,
+    },
+    assistantVoice: {
+      type: String,
+      enum: ASSISTANT_VOICES,
+    },
   },
   {
     timestamps: true,
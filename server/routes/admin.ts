@@ -1,6 +1,10 @@
 import express, { Router, Response } from 'express';
+import { Types } from 'mongoose';
 import User from '../models/User';
 import Conversation from '../models/Conversation';
+import Campaign from '../models/Campaign';
+import { parseSpendQuery, getSpend, checkCampaignBudget } from '../services/spend';
+import { processCallQueue } from '../jobs/callProcessor';
 import { authenticateToken, authorizeAdmin, AuthRequest } from '../middleware/auth';
 
 const router: Router = express.Router();
@@ -240,4 +244,80 @@ router.delete('/users/:id', async (req: AuthRequest, res: Response) => {
   }
 });
 
+// Get call spend across all users, grouped by user, campaign or day
+router.get('/spend', async (req: AuthRequest, res: Response) => {
+  try {
+    let spendQuery;
+    try {
+      spendQuery = parseSpendQuery(req.query);
+    } catch (validationError: any) {
+      return res.status(400).json({ error: validationError.message });
+    }
+
+    const { groupBy, match } = spendQuery;
+    if (req.query.userId) {
+      match.userId = req.query.userId as string;
+    }
+
+    const spend = await getSpend(match, groupBy);
+
+    res.json({
+      groupBy,
+      spend,
+      totalCost: spend.reduce((sum, row) => sum + row.totalCost, 0),
+    });
+  } catch (error: any) {
+    console.error('Get spend error:', error);
+    res.status(500).json({ error: 'Failed to fetch spend', details: error.message });
+  }
+});
+
+// Set or clear a campaign's budget cap
+router.patch('/campaigns/:id/budget', async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { budgetCap } = req.body;
+
+    if (!Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid campaign ID' });
+    }
+
+    // Passing null removes the cap
+    if (budgetCap !== null && (typeof budgetCap !== 'number' || !Number.isFinite(budgetCap) || budgetCap < 0)) {
+      return res.status(400).json({ error: 'Budget cap must be a non-negative number or null' });
+    }
+
+    const campaign = await Campaign.findByIdAndUpdate(
+      id,
+      budgetCap === null ? { $unset: { budgetCap: '' } } : { $set: { budgetCap } },
+      { new: true, runValidators: true }
+    );
+
+    if (!campaign) {
+      return res.status(404).json({ error: 'Campaign not found' });
+    }
+
+    // A raised or removed cap may let queued calls go out again
+    processCallQueue(campaign.ownerId).catch(error => {
+      console.error('Error starting call processor:', error);
+    });
+
+    const budget = await checkCampaignBudget(campaign);
+
+    res.json({
+      message: budgetCap === null ? 'Budget cap removed' : 'Budget cap updated successfully',
+      campaign: {
+        id: campaign._id,
+        name: campaign.name,
+        budgetCap: campaign.budgetCap,
+        spent: budget.spent,
+        overBudget: !budget.allowed,
+      },
+    });
+  } catch (error: any) {
+    console.error('Update campaign budget error:', error);
+    res.status(500).json({ error: 'Failed to update campaign budget', details: error.message });
+  }
+});
+
 export default router;
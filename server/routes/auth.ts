@@ -2,7 +2,9 @@ import express, { Router, Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import User from '../models/User';
+import { ASSISTANT_VOICES, AssistantVoice } from '../../ai/voices';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { isValidPhoneRegion } from '../utils/phone';
 
 const router: Router = express.Router();
 
@@ -121,6 +123,7 @@ router.post('/login', async (req: Request, res: Response) => {
         name: user.name,
         email: user.email,
         role: user.role,
+        assistantVoice: user.assistantVoice,
       },
     });
   } catch (error: any) {
@@ -144,6 +147,8 @@ router.get('/me', authenticateToken, async (req: AuthRequest, res: Response) =>
         email: user.email,
         role: user.role,
         isActive: user.isActive,
+        phoneRegion: user.phoneRegion,
+        assistantVoice: user.assistantVoice,
         createdAt: user.createdAt,
       },
     });
@@ -156,9 +161,17 @@ router.get('/me', authenticateToken, async (req: AuthRequest, res: Response) =>
 // Update user profile
 router.put('/profile', authenticateToken, async (req: AuthRequest, res: Response) => {
   try {
-    const { name, email } = req.body;
+    const { name, email, phoneRegion, assistantVoice } = req.body;
     const userId = req.user?.userId;
 
+    if (phoneRegion && !isValidPhoneRegion(phoneRegion)) {
+      return res.status(400).json({ error: `Invalid phone region: ${phoneRegion}` });
+    }
+
+    if (assistantVoice && !ASSISTANT_VOICES.includes(assistantVoice)) {
+      return res.status(400).json({ error: `Assistant voice must be one of: ${ASSISTANT_VOICES.join(', ')}` });
+    }
+
     // Find user
     const user = await User.findById(userId);
     if (!user) {
@@ -178,6 +191,8 @@ router.put('/profile', authenticateToken, async (req: AuthRequest, res: Response
       }
       user.email = email.toLowerCase();
     }
+    if (phoneRegion !== undefined) user.phoneRegion = phoneRegion || undefined;
+    if (assistantVoice !== undefined) user.assistantVoice = (assistantVoice as AssistantVoice) || undefined;
 
     await user.save();
 
@@ -188,6 +203,8 @@ router.put('/profile', authenticateToken, async (req: AuthRequest, res: Response
         name: user.name,
         email: user.email,
         role: user.role,
+        phoneRegion: user.phoneRegion,
+        assistantVoice: user.assistantVoice,
       },
     });
   } catch (error: any) {
@@ -1,67 +1,122 @@
-import express, { Router, Response, Request } from 'express';
-import multer, { FileFilterCallback } from 'multer';
-import path from 'path';
+import express, { Router, Response } from 'express';
 import fs from 'fs';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
-import BulkCallQueue from '../models/BulkCallQueue';
-import { parseContactFile, findDuplicates } from '../utils/fileParser';
-import { processCallQueue } from '../jobs/callProcessor';
-import { getCallStatus } from '../services/bolna';
+import { upload, AuthRequestWithFile } from '../middleware/upload';
+import { Types } from 'mongoose';
+import Campaign from '../models/Campaign';
+import User from '../models/User';
+import BulkCallQueue, {
+  CALL_STATUSES,
+  CallStatus,
+  RETRYABLE_CALL_STATUSES,
+  CALL_DISPOSITIONS,
+  CallDisposition,
+  CALL_SENTIMENTS,
+  CallSentiment,
+} from '../models/BulkCallQueue';
+import MappingTemplate from '../models/MappingTemplate';
+import ImportJob, { IImportJob } from '../models/ImportJob';
+import { previewContactFile, parseColumnMapping, ColumnMapping } from '../utils/fileParser';
+import QueueControl from '../models/QueueControl';
+import { processCallQueue, requeueCalls, cancelQueuedCalls, isQueuePaused, getQueueStats } from '../jobs/callProcessor';
+import { runImportJob } from '../jobs/importProcessor';
+import { recordExecutionSync } from '../jobs/executionSync';
+import { getTelephonyProvider } from '../services/telephony';
+import { parseCallingWindow, isValidTimezone } from '../utils/timezone';
+import { isValidPhoneRegion, resolvePhoneRegion } from '../utils/phone';
+import { parseTranscript } from '../utils/transcript';
+import { escapeRegex } from '../utils/search';
+import { applyExecutionData, applyLifecycleEvent, normalizeCallStatus } from '../services/callEvents';
+import { applyRetryPolicy } from '../services/retryPolicy';
+import { suppressIfOptedOut } from '../services/suppression';
+import { parseDuplicateStrategy, DuplicateStrategy } from '../services/duplicates';
+import { EXPORT_FORMATS, ExportFormat, buildCallExportRows, writeCallExport, exportContentType } from '../services/callExport';
+import { parseSpendQuery, getSpend } from '../services/spend';
+import { signRecordingPath } from '../services/recordings';
 
 const router: Router = express.Router();
 
-// Configure multer for file upload
-const storage = multer.diskStorage({
-  destination: (_req: Request, _file: Express.Multer.File, cb: (error: Error | null, destination: string) => void) => {
-    const uploadDir = path.join(process.cwd(), 'uploads');
-    if (!fs.existsSync(uploadDir)) {
-      fs.mkdirSync(uploadDir, { recursive: true });
-    }
-    cb(null, uploadDir);
-  },
-  filename: (_req: Request, file: Express.Multer.File, cb: (error: Error | null, filename: string) => void) => {
-    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1e9);
-    cb(null, `contacts-${uniqueSuffix}${path.extname(file.originalname)}`);
-  },
-});
-
-const fileFilter = (_req: Request, file: Express.Multer.File, cb: FileFilterCallback) => {
-  const allowedExtensions = ['.csv', '.xlsx', '.xls'];
-  const ext = path.extname(file.originalname).toLowerCase();
-  
-  if (allowedExtensions.includes(ext)) {
-    cb(null, true);
-  } else {
-    cb(new Error('Invalid file type. Only CSV, XLSX, and XLS files are allowed.'));
-  }
-};
-
-const upload = multer({
-  storage,
-  fileFilter,
-  limits: {
-    fileSize: 5 * 1024 * 1024, // 5MB max size
-  },
-});
+// Larger exports must be narrowed down with filters
+const MAX_EXPORT_ROWS = 50000;
 
 // All routes require authentication
 router.use(authenticateToken);
 
+function formatImportJob(job: IImportJob) {
+  return {
+    id: job._id,
+    campaignId: job.campaignId,
+    fileName: job.fileName,
+    sheets: job.sheets,
+    status: job.status,
+    progress: job.progress,
+    processedRows: job.processedRows,
+    validRows: job.validRows,
+    savedContacts: job.savedContacts,
+    updatedContacts: job.updatedContacts,
+    duplicateStrategy: job.duplicateStrategy,
+    duplicatesFound: job.duplicatesFound,
+    duplicates: job.duplicateRows,
+    suppressed: job.suppressed,
+    suppressedRows: job.suppressedRows,
+    errorCount: job.errorCount,
+    errors: job.rowErrors,
+    failureReason: job.failureReason,
+    startedAt: job.startedAt,
+    completedAt: job.completedAt,
+    createdAt: job.createdAt,
+  };
+}
+
 /**
- * Upload and process bulk call file
- * POST /api/bulk-calls/upload
+ * Preview a contact file: its sheets, headers, first rows and a suggested column mapping.
+ * Pass `sheet` to preview a sheet other than the first one of an Excel file.
+ * POST /api/bulk-calls/preview
  */
-interface AuthRequestWithFile extends AuthRequest {
-  file?: Express.Multer.File;
-}
+router.post('/preview', upload.single('file'), async (req: AuthRequestWithFile, res: Response) => {
+  let filePath: string | undefined;
+
+  try {
+    const file = req.file;
+
+    if (!file || !file.path) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+
+    filePath = file.path;
+    const preview = await previewContactFile(filePath, req.body.sheet || undefined);
 
+    if (preview.headers.length === 0) {
+      return res.status(400).json({ error: 'The file has no header row' });
+    }
+
+    res.json(preview);
+  } catch (error: any) {
+    console.error('Preview error:', error);
+    res.status(500).json({ error: 'Failed to preview file', details: error.message });
+  } finally {
+    // Clean up uploaded file
+    if (filePath && fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+  }
+});
+
+/**
+ * Upload a contact file and start importing it in the background. Columns come
+ * from `mapping` (JSON), a saved `mappingTemplateId`, or are guessed from the
+ * headers; `sheets` picks the Excel sheets to import and `duplicateStrategy`
+ * (skip, update or insert) what happens to numbers already seen. Responds with
+ * the import job to poll for progress.
+ * POST /api/bulk-calls/upload
+ */
 router.post('/upload', upload.single('file'), async (req: AuthRequestWithFile, res: Response) => {
   let filePath: string | undefined;
 
   try {
     const userId = req.user?.userId;
     const file = req.file;
-    const checkDuplicates = req.body.checkDuplicates === 'true';
+    const { campaignId, campaignName, agentId, purpose, phoneRegion, mapping, mappingTemplateId, sheets } = req.body;
 
     if (!file || !file.path) {
       return res.status(400).json({ error: 'No file uploaded' });
@@ -74,68 +129,98 @@ router.post('/upload', upload.single('file'), async (req: AuthRequestWithFile, r
     filePath = file.path;
     console.log(`📁 File uploaded: ${file.originalname} (${file.size} bytes)`);
 
-    // Parse the file
-    const parseResult = await parseContactFile(filePath);
-
-    if (!parseResult.success || parseResult.contacts.length === 0) {
-      return res.status(400).json({
-        error: 'Failed to parse file',
-        details: parseResult.errors,
-        totalRows: parseResult.totalRows,
-        validRows: parseResult.validRows,
-      });
+    if (phoneRegion && !isValidPhoneRegion(phoneRegion)) {
+      return res.status(400).json({ error: `Invalid phone region: ${phoneRegion}` });
     }
 
-    // Check for duplicates if requested
-    let duplicates: string[] = [];
-    if (checkDuplicates) {
-      const existingContacts = await BulkCallQueue.find(
-        { userId, phone: { $in: parseResult.contacts.map(c => c.phone) } },
-        { phone: 1 }
-      );
-      duplicates = findDuplicates(parseResult.contacts, existingContacts);
+    // Resolve the column mapping chosen in the preview step, if any
+    let columnMapping: ColumnMapping | undefined;
+    if (mapping) {
+      try {
+        columnMapping = parseColumnMapping(mapping);
+      } catch (validationError: any) {
+        return res.status(400).json({ error: validationError.message });
+      }
+    } else if (mappingTemplateId) {
+      if (!Types.ObjectId.isValid(mappingTemplateId)) {
+        return res.status(400).json({ error: 'Invalid mapping template ID' });
+      }
+      const template = await MappingTemplate.findOne({ _id: mappingTemplateId, userId });
+      if (!template) {
+        return res.status(404).json({ error: 'Mapping template not found' });
+      }
+      columnMapping = template.toObject().mapping;
     }
 
-    // Save contacts to database
-    const contactsToSave = parseResult.contacts.map(contact => ({
-      userId,
-      name: contact.name,
-      phone: contact.phone,
-      city: contact.city,
-      email: contact.email,
-      notes: contact.notes,
-      status: 'pending',
-      callAttempts: 0,
-    }));
-
-    const savedContacts = await BulkCallQueue.insertMany(contactsToSave);
+    let duplicateStrategy: DuplicateStrategy;
+    try {
+      duplicateStrategy = parseDuplicateStrategy(req.body.duplicateStrategy);
+    } catch (validationError: any) {
+      return res.status(400).json({ error: validationError.message });
+    }
 
-    console.log(`✅ Saved ${savedContacts.length} contacts to database`);
+    // Excel sheets to import; the first sheet when none are chosen
+    let sheetNames: string[] = [];
+    if (sheets) {
+      try {
+        const parsed = typeof sheets === 'string' && sheets.trim().startsWith('[') ? JSON.parse(sheets) : sheets;
+        sheetNames = Array.isArray(parsed) ? parsed : [parsed];
+      } catch {
+        return res.status(400).json({ error: 'Sheets must be a sheet name or a JSON list of sheet names' });
+      }
+      if (!sheetNames.every(sheet => typeof sheet === 'string' && sheet)) {
+        return res.status(400).json({ error: 'Sheets must be a sheet name or a JSON list of sheet names' });
+      }
+    }
 
-    // Start processing calls in background
-    if (userId) {
-      processCallQueue(userId).catch(error => {
-        console.error('Error starting call processor:', error);
+    // Attach the upload to an existing campaign or start a new one for it
+    let campaign;
+    if (campaignId) {
+      if (!Types.ObjectId.isValid(campaignId)) {
+        return res.status(400).json({ error: 'Invalid campaign ID' });
+      }
+      campaign = await Campaign.findOne({ _id: campaignId, ownerId: userId });
+      if (!campaign) {
+        return res.status(404).json({ error: 'Campaign not found' });
+      }
+    } else {
+      campaign = await Campaign.create({
+        ownerId: userId,
+        name: campaignName?.trim() || `${file.originalname} (${new Date().toLocaleDateString()})`,
+        agentId: agentId || undefined,
+        purpose: purpose || undefined,
+        phoneRegion: phoneRegion || undefined,
       });
     }
 
-    res.status(201).json({
-      message: 'File uploaded and contacts saved successfully',
-      summary: {
-        totalRows: parseResult.totalRows,
-        validRows: parseResult.validRows,
-        savedContacts: savedContacts.length,
-        errors: parseResult.errors.length,
-        duplicatesFound: duplicates.length,
+    // Numbers without a country code are read in the campaign's region, else the user's
+    const user = await User.findById(userId, { phoneRegion: 1 });
+
+    const importJob = await ImportJob.create({
+      userId,
+      campaignId: campaign._id,
+      fileName: file.originalname,
+      fileSize: file.size,
+      sheets: sheetNames,
+      mapping: columnMapping,
+      phoneRegion: resolvePhoneRegion(campaign.phoneRegion, user?.phoneRegion),
+      duplicateStrategy,
+    });
+
+    // The import runs in the background and owns the file from here on
+    runImportJob(importJob._id.toString(), filePath).catch(error => {
+      console.error('Error running import job:', error);
+    });
+    filePath = undefined;
+
+    res.status(202).json({
+      message: 'File uploaded, importing contacts',
+      campaign: {
+        id: campaign._id,
+        name: campaign.name,
+        status: campaign.status,
       },
-      contacts: savedContacts.map(c => ({
-        id: c._id,
-        name: c.name,
-        phone: c.phone,
-        status: c.status,
-      })),
-      errors: parseResult.errors,
-      duplicates,
+      importJob: formatImportJob(importJob),
     });
   } catch (error: any) {
     console.error('Upload error:', error);
@@ -144,7 +229,7 @@ router.post('/upload', upload.single('file'), async (req: AuthRequestWithFile, r
       details: error.message,
     });
   } finally {
-    // Clean up uploaded file
+    // Clean up the uploaded file unless the import job took it over
     if (filePath && fs.existsSync(filePath)) {
       fs.unlinkSync(filePath);
       console.log(`🗑️ Cleaned up temporary file: ${filePath}`);
@@ -152,6 +237,50 @@ router.post('/upload', upload.single('file'), async (req: AuthRequestWithFile, r
   }
 });
 
+/**
+ * List the current user's recent imports
+ * GET /api/bulk-calls/imports
+ */
+router.get('/imports', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+    const jobs = await ImportJob.find({ userId }).sort({ createdAt: -1 }).limit(limit);
+
+    res.json({ imports: jobs.map(formatImportJob) });
+  } catch (error: any) {
+    console.error('Get imports error:', error);
+    res.status(500).json({ error: 'Failed to fetch imports', details: error.message });
+  }
+});
+
+/**
+ * Get an import's progress
+ * GET /api/bulk-calls/imports/:id
+ */
+router.get('/imports/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { id } = req.params;
+
+    if (!Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid import ID' });
+    }
+
+    const job = await ImportJob.findOne({ _id: id, userId });
+
+    if (!job) {
+      return res.status(404).json({ error: 'Import not found' });
+    }
+
+    res.json({ importJob: formatImportJob(job) });
+  } catch (error: any) {
+    console.error('Get import error:', error);
+    res.status(500).json({ error: 'Failed to fetch import', details: error.message });
+  }
+});
+
 /**
  * Get all bulk calls for current user
  * GET /api/bulk-calls
@@ -163,19 +292,39 @@ router.get('/', async (req: AuthRequest, res: Response) => {
     const limit = parseInt(req.query.limit as string) || 50;
     const status = req.query.status as string;
     const search = req.query.search as string;
+    const campaignId = req.query.campaignId as string;
+    const disposition = req.query.disposition as string;
+    const sentiment = req.query.sentiment as string;
     const skip = (page - 1) * limit;
 
     // Build query
     const query: any = { userId };
     
-    if (status && ['pending', 'processing', 'completed', 'failed'].includes(status)) {
+    if (status && CALL_STATUSES.includes(status as CallStatus)) {
       query.status = status;
     }
 
+    if (disposition && CALL_DISPOSITIONS.includes(disposition as CallDisposition)) {
+      query['analysis.disposition'] = disposition;
+    }
+
+    if (sentiment && CALL_SENTIMENTS.includes(sentiment as CallSentiment)) {
+      query['analysis.sentiment'] = sentiment;
+    }
+
+    if (campaignId) {
+      if (!Types.ObjectId.isValid(campaignId)) {
+        return res.status(400).json({ error: 'Invalid campaign ID' });
+      }
+      query.campaignId = campaignId;
+    }
+
     if (search) {
+      const pattern = escapeRegex(search);
       query.$or = [
-        { name: { $regex: search, $options: 'i' } },
-        { phone: { $regex: search, $options: 'i' } },
+        { name: { $regex: pattern, $options: 'i' } },
+        { phone: { $regex: pattern, $options: 'i' } },
+        { rawPhone: { $regex: pattern, $options: 'i' } },
       ];
     }
 
@@ -187,37 +336,30 @@ router.get('/', async (req: AuthRequest, res: Response) => {
       BulkCallQueue.countDocuments(query),
     ]);
 
-    // Get status summary
-    const statusSummary = await BulkCallQueue.aggregate([
-      { $match: { userId } },
-      { $group: { _id: '$status', count: { $sum: 1 } } },
+    // Get status summary and whether the user's queue is paused
+    const [summary, queuePaused] = await Promise.all([
+      getQueueStats(userId!, campaignId),
+      isQueuePaused(userId!),
     ]);
 
-    const summary = {
-      total: 0,
-      pending: 0,
-      processing: 0,
-      completed: 0,
-      failed: 0,
-    };
-
-    statusSummary.forEach(item => {
-      summary[item._id as keyof typeof summary] = item.count;
-      summary.total += item.count;
-    });
-
     res.json({
       calls: calls.map(call => ({
         id: call._id,
         name: call.name,
         phone: call.phone,
+        rawPhone: call.rawPhone,
+        phoneType: call.phoneType,
         city: call.city,
         email: call.email,
+        campaignId: call.campaignId,
+        contactId: call.contactId,
         status: call.status,
         bolnaCallId: call.bolnaCallId,
         errorMessage: call.errorMessage,
         callAttempts: call.callAttempts,
         lastAttemptAt: call.lastAttemptAt,
+        nextAttemptAt: call.nextAttemptAt,
+        analysis: call.analysis,
         createdAt: call.createdAt,
         updatedAt: call.updatedAt,
       })),
@@ -228,6 +370,7 @@ router.get('/', async (req: AuthRequest, res: Response) => {
         pages: Math.ceil(total / limit),
       },
       summary,
+      queuePaused,
     });
   } catch (error: any) {
     console.error('Get bulk calls error:', error);
@@ -235,6 +378,116 @@ router.get('/', async (req: AuthRequest, res: Response) => {
   }
 });
 
+/**
+ * The current user's call spend, grouped by campaign or day
+ * GET /api/bulk-calls/spend?groupBy=day&campaignId=<id>&from=2026-01-01&to=2026-01-31
+ */
+router.get('/spend', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    let spendQuery;
+    try {
+      spendQuery = parseSpendQuery(req.query);
+    } catch (validationError: any) {
+      return res.status(400).json({ error: validationError.message });
+    }
+
+    const { groupBy, match } = spendQuery;
+    const spend = await getSpend({ ...match, userId }, groupBy);
+
+    res.json({
+      groupBy,
+      spend,
+      totalCost: spend.reduce((sum, row) => sum + row.totalCost, 0),
+    });
+  } catch (error: any) {
+    console.error('Get spend error:', error);
+    res.status(500).json({ error: 'Failed to fetch spend', details: error.message });
+  }
+});
+
+/**
+ * Export call results as CSV or XLSX, filtered by status (comma separated),
+ * campaign and a created-at date range
+ * GET /api/bulk-calls/export?format=xlsx&status=completed,no_answer&campaignId=<id>&from=2026-01-01&to=2026-01-31
+ */
+router.get('/export', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const format = ((req.query.format as string) || 'csv').toLowerCase() as ExportFormat;
+    const status = req.query.status as string;
+    const campaignId = req.query.campaignId as string;
+    const disposition = req.query.disposition as string;
+    const from = req.query.from as string;
+    const to = req.query.to as string;
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `Format must be one of: ${EXPORT_FORMATS.join(', ')}` });
+    }
+
+    const query: any = { userId };
+
+    if (status) {
+      const statuses = status.split(',').map(s => s.trim()).filter(Boolean);
+      const invalid = statuses.filter(s => !CALL_STATUSES.includes(s as CallStatus));
+      if (invalid.length > 0) {
+        return res.status(400).json({ error: `Invalid status: ${invalid.join(', ')}` });
+      }
+      query.status = { $in: statuses };
+    }
+
+    if (campaignId) {
+      if (!Types.ObjectId.isValid(campaignId)) {
+        return res.status(400).json({ error: 'Invalid campaign ID' });
+      }
+      query.campaignId = campaignId;
+    }
+
+    if (disposition) {
+      if (!CALL_DISPOSITIONS.includes(disposition as CallDisposition)) {
+        return res.status(400).json({ error: `Disposition must be one of: ${CALL_DISPOSITIONS.join(', ')}` });
+      }
+      query['analysis.disposition'] = disposition;
+    }
+
+    // A bare date for `to` covers that whole day
+    const fromDate = from ? new Date(from) : undefined;
+    const toDate = to ? new Date(/^\d{4}-\d{2}-\d{2}$/.test(to) ? `${to}T23:59:59.999Z` : to) : undefined;
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return res.status(400).json({ error: 'from and to must be dates, e.g. 2026-01-31' });
+    }
+    if (fromDate || toDate) {
+      query.createdAt = {};
+      if (fromDate) query.createdAt.$gte = fromDate;
+      if (toDate) query.createdAt.$lte = toDate;
+    }
+
+    const total = await BulkCallQueue.countDocuments(query);
+    if (total > MAX_EXPORT_ROWS) {
+      return res.status(400).json({
+        error: `Export is limited to ${MAX_EXPORT_ROWS} calls; ${total} match. Narrow it down by campaign, status or date.`,
+      });
+    }
+
+    const [calls, campaigns] = await Promise.all([
+      BulkCallQueue.find(query).sort({ createdAt: -1 }),
+      Campaign.find({ ownerId: userId }, { name: 1 }),
+    ]);
+    const campaignNames = new Map<string, string>(campaigns.map(c => [c._id.toString(), c.name]));
+
+    const file = writeCallExport(buildCallExportRows(calls, campaignNames), format);
+    const fileName = `call-results-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    res.setHeader('Content-Type', exportContentType(format));
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.send(file);
+  } catch (error: any) {
+    console.error('Export calls error:', error);
+    res.status(500).json({ error: 'Failed to export calls', details: error.message });
+  }
+});
+
 /**
  * Get a specific call by ID
  * GET /api/bulk-calls/:id
@@ -255,10 +508,18 @@ router.get('/:id', async (req: AuthRequest, res: Response) => {
         id: call._id,
         name: call.name,
         phone: call.phone,
+        rawPhone: call.rawPhone,
+        phoneType: call.phoneType,
         city: call.city,
         email: call.email,
         notes: call.notes,
+        campaignId: call.campaignId,
+        contactId: call.contactId,
+        timezone: call.timezone,
+        callingWindow: call.callingWindow,
+        nextAttemptAt: call.nextAttemptAt,
         status: call.status,
+        statusHistory: call.statusHistory,
         bolnaCallId: call.bolnaCallId,
         errorMessage: call.errorMessage,
         callAttempts: call.callAttempts,
@@ -274,6 +535,60 @@ router.get('/:id', async (req: AuthRequest, res: Response) => {
   }
 });
 
+/**
+ * Override a contact's time zone or calling window
+ * PATCH /api/bulk-calls/:id/schedule
+ */
+router.patch('/:id/schedule', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { id } = req.params;
+    const { timezone, callingWindow } = req.body;
+
+    const call = await BulkCallQueue.findOne({ _id: id, userId });
+
+    if (!call) {
+      return res.status(404).json({ error: 'Call not found' });
+    }
+
+    if (timezone !== undefined) {
+      if (timezone !== null && !isValidTimezone(timezone)) {
+        return res.status(400).json({ error: `Invalid time zone: ${timezone}` });
+      }
+      call.timezone = timezone || undefined;
+    }
+
+    // Passing null falls back to the campaign's calling window
+    if (callingWindow !== undefined) {
+      try {
+        call.callingWindow = callingWindow === null ? undefined : parseCallingWindow(callingWindow);
+      } catch (validationError: any) {
+        return res.status(400).json({ error: validationError.message });
+      }
+    }
+
+    // Let the processor re-evaluate the window on its next pass (retries keep their backoff)
+    if (call.status === 'queued' && call.callAttempts === 0) {
+      call.nextAttemptAt = undefined;
+    }
+
+    await call.save();
+
+    res.json({
+      message: 'Call schedule updated successfully',
+      call: {
+        id: call._id,
+        timezone: call.timezone,
+        callingWindow: call.callingWindow,
+        nextAttemptAt: call.nextAttemptAt,
+      },
+    });
+  } catch (error: any) {
+    console.error('Update call schedule error:', error);
+    res.status(500).json({ error: 'Failed to update call schedule', details: error.message });
+  }
+});
+
 /**
  * Retry failed calls
  * POST /api/bulk-calls/retry
@@ -287,19 +602,17 @@ router.post('/retry', async (req: AuthRequest, res: Response) => {
       return res.status(400).json({ error: 'Call IDs array is required' });
     }
 
-    // Reset failed calls to pending
-    const result = await BulkCallQueue.updateMany(
+    // Send failed calls back to the queue
+    const retriedCount = await requeueCalls(
       {
         _id: { $in: callIds },
         userId,
-        status: 'failed',
+        status: { $in: RETRYABLE_CALL_STATUSES },
       },
-      {
-        $set: { status: 'pending' },
-      }
+      'Manual retry'
     );
 
-    if (result.modifiedCount === 0) {
+    if (retriedCount === 0) {
       return res.status(404).json({ error: 'No failed calls found to retry' });
     }
 
@@ -311,8 +624,8 @@ router.post('/retry', async (req: AuthRequest, res: Response) => {
     }
 
     res.json({
-      message: `${result.modifiedCount} calls reset to pending and queued for retry`,
-      retriedCount: result.modifiedCount,
+      message: `${retriedCount} calls queued for retry`,
+      retriedCount,
     });
   } catch (error: any) {
     console.error('Retry calls error:', error);
@@ -328,13 +641,13 @@ router.post('/retry-all', async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.user?.userId;
 
-    // Reset all failed calls to pending
-    const result = await BulkCallQueue.updateMany(
-      { userId, status: 'failed' },
-      { $set: { status: 'pending' } }
+    // Send all failed calls back to the queue
+    const retriedCount = await requeueCalls(
+      { userId, status: { $in: RETRYABLE_CALL_STATUSES } },
+      'Manual retry'
     );
 
-    if (result.modifiedCount === 0) {
+    if (retriedCount === 0) {
       return res.status(404).json({ error: 'No failed calls found' });
     }
 
@@ -346,8 +659,8 @@ router.post('/retry-all', async (req: AuthRequest, res: Response) => {
     }
 
     res.json({
-      message: `${result.modifiedCount} calls reset to pending and queued for retry`,
-      retriedCount: result.modifiedCount,
+      message: `${retriedCount} calls queued for retry`,
+      retriedCount,
     });
   } catch (error: any) {
     console.error('Retry all calls error:', error);
@@ -355,6 +668,88 @@ router.post('/retry-all', async (req: AuthRequest, res: Response) => {
   }
 });
 
+/**
+ * Pause dialing for all of the user's calls. Calls already live are not affected.
+ * POST /api/bulk-calls/pause
+ */
+router.post('/pause', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    await QueueControl.findOneAndUpdate(
+      { userId },
+      { $set: { paused: true, pausedAt: new Date() } },
+      { upsert: true }
+    );
+
+    res.json({ message: 'Call queue paused', queuePaused: true });
+  } catch (error: any) {
+    console.error('Pause queue error:', error);
+    res.status(500).json({ error: 'Failed to pause call queue', details: error.message });
+  }
+});
+
+/**
+ * Resume dialing for the user's calls
+ * POST /api/bulk-calls/resume
+ */
+router.post('/resume', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    await QueueControl.findOneAndUpdate(
+      { userId },
+      { $set: { paused: false }, $unset: { pausedAt: '' } },
+      { upsert: true }
+    );
+
+    // Start processing calls in background
+    if (userId) {
+      processCallQueue(userId).catch(error => {
+        console.error('Error starting call processor:', error);
+      });
+    }
+
+    res.json({ message: 'Call queue resumed', queuePaused: false });
+  } catch (error: any) {
+    console.error('Resume queue error:', error);
+    res.status(500).json({ error: 'Failed to resume call queue', details: error.message });
+  }
+});
+
+/**
+ * Cancel every call still waiting to be dialed, optionally limited to one campaign
+ * POST /api/bulk-calls/cancel
+ */
+router.post('/cancel', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { campaignId } = req.body;
+
+    const filter: Record<string, any> = { userId };
+    if (campaignId) {
+      if (!Types.ObjectId.isValid(campaignId)) {
+        return res.status(400).json({ error: 'Invalid campaign ID' });
+      }
+      filter.campaignId = campaignId;
+    }
+
+    const cancelledCount = await cancelQueuedCalls(filter, 'Cancelled by user');
+
+    if (cancelledCount === 0) {
+      return res.status(404).json({ error: 'No queued calls found' });
+    }
+
+    res.json({
+      message: `${cancelledCount} queued calls cancelled`,
+      cancelledCount,
+    });
+  } catch (error: any) {
+    console.error('Cancel calls error:', error);
+    res.status(500).json({ error: 'Failed to cancel calls', details: error.message });
+  }
+});
+
 /**
  * Delete a call
  * DELETE /api/bulk-calls/:id
@@ -396,17 +791,18 @@ router.get('/:id/interaction', async (req: AuthRequest, res: Response) => {
       return res.status(400).json({ error: 'No Bolna execution ID found for this call' });
     }
 
-    // Fetch execution details from Bolna API
+    // Fetch execution details from the telephony provider
     try {
-      const executionData = await getCallStatus(call.bolnaCallId);
+      const executionData = await getTelephonyProvider().getCallStatus(call.bolnaCallId);
       
       // Update local database with fetched data
-      call.conversationTime = executionData.conversation_time;
-      call.transcript = executionData.transcript;
-      call.recordingUrl = executionData.telephony_data?.recording_url;
-      call.callStatus = executionData.status;
-      call.hangupBy = executionData.telephony_data?.hangup_by;
-      call.extractedData = executionData.extracted_data;
+      applyExecutionData(call, executionData);
+      await suppressIfOptedOut(call);
+      const event = normalizeCallStatus(executionData.status);
+      if (event && applyLifecycleEvent(call, event, executionData.telephony_data?.hangup_reason)) {
+        await applyRetryPolicy(call);
+      }
+      recordExecutionSync(call, executionData);
       await call.save();
 
       res.json({
@@ -416,12 +812,18 @@ router.get('/:id/interaction', async (req: AuthRequest, res: Response) => {
         status: call.status,
         conversationTime: executionData.conversation_time,
         transcript: executionData.transcript,
-        recordingUrl: executionData.telephony_data?.recording_url,
+        transcriptTurns: call.transcriptTurns,
+        recordingUrl: call.recordingUrl,
+        playbackUrl: call.recordingKey ? signRecordingPath(call._id.toString()) : undefined,
+        recordingExpiredAt: call.recordingExpiredAt,
         callStatus: executionData.status,
         hangupBy: executionData.telephony_data?.hangup_by,
         hangupReason: executionData.telephony_data?.hangup_reason,
+        variables: call.metadata,
         extractedData: executionData.extracted_data,
         costBreakdown: executionData.cost_breakdown,
+        totalCost: call.totalCost,
+        analysis: call.analysis,
         createdAt: executionData.created_at,
         updatedAt: executionData.updated_at,
       });
@@ -429,7 +831,7 @@ router.get('/:id/interaction', async (req: AuthRequest, res: Response) => {
       console.error('Failed to fetch from Bolna:', bolnaError.message);
       
       // Return cached data if available
-      if (call.transcript || call.recordingUrl) {
+      if (call.transcript || call.recordingUrl || call.recordingKey) {
         res.json({
           callId: call._id,
           name: call.name,
@@ -437,10 +839,21 @@ router.get('/:id/interaction', async (req: AuthRequest, res: Response) => {
           status: call.status,
           conversationTime: call.conversationTime,
           transcript: call.transcript,
+          // Records saved before transcripts were split into turns are parsed on the fly
+          transcriptTurns: call.transcriptTurns.length > 0 || !call.transcript
+            ? call.transcriptTurns
+            : parseTranscript(call.transcript, call.conversationTime),
           recordingUrl: call.recordingUrl,
+          playbackUrl: call.recordingKey ? signRecordingPath(call._id.toString()) : undefined,
+          recordingExpiredAt: call.recordingExpiredAt,
           callStatus: call.callStatus,
           hangupBy: call.hangupBy,
+          hangupReason: call.hangupReason,
+          variables: call.metadata,
           extractedData: call.extractedData,
+          costBreakdown: call.costBreakdown,
+          totalCost: call.totalCost,
+          analysis: call.analysis,
           cached: true,
         });
       } else {
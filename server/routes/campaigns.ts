@@ -0,0 +1,401 @@
+import express, { Router, Response } from 'express';
+import { Types } from 'mongoose';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import Campaign, { ICampaign } from '../models/Campaign';
+import BulkCallQueue, { ACTIVE_CALL_STATUSES } from '../models/BulkCallQueue';
+import { processCallQueue, getQueueStats } from '../jobs/callProcessor';
+import { parseCallingWindow, isValidTimezone } from '../utils/timezone';
+import { parseRetryPolicy, resolveRetryPolicy } from '../services/retryPolicy';
+import { isValidPhoneRegion } from '../utils/phone';
+import { getCampaignSpend, checkCampaignBudget } from '../services/spend';
+
+const router: Router = express.Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+function formatCampaign(campaign: ICampaign) {
+  return {
+    id: campaign._id,
+    name: campaign.name,
+    agentId: campaign.agentId,
+    purpose: campaign.purpose,
+    schedule: campaign.schedule,
+    callingWindow: campaign.callingWindow,
+    timezone: campaign.timezone,
+    phoneRegion: campaign.phoneRegion,
+    retryPolicy: resolveRetryPolicy(campaign),
+    budgetCap: campaign.budgetCap,
+    status: campaign.status,
+    createdAt: campaign.createdAt,
+    updatedAt: campaign.updatedAt,
+  };
+}
+
+/**
+ * List campaigns for current user
+ * GET /api/campaigns
+ */
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    const campaigns = await Campaign.find({ ownerId: userId }).sort({ createdAt: -1 });
+
+    // Contact counts per campaign
+    const counts = await BulkCallQueue.aggregate([
+      { $match: { userId, campaignId: { $in: campaigns.map(c => c._id) } } },
+      { $group: { _id: '$campaignId', count: { $sum: 1 } } },
+    ]);
+    const countById = new Map(counts.map(item => [item._id.toString(), item.count]));
+    const spendById = await getCampaignSpend(campaigns.map(c => c._id));
+
+    res.json({
+      campaigns: campaigns.map(campaign => ({
+        ...formatCampaign(campaign),
+        totalContacts: countById.get(campaign._id.toString()) || 0,
+        spent: spendById.get(campaign._id.toString()) || 0,
+      })),
+    });
+  } catch (error: any) {
+    console.error('Get campaigns error:', error);
+    res.status(500).json({ error: 'Failed to fetch campaigns', details: error.message });
+  }
+});
+
+/**
+ * Create a campaign
+ * POST /api/campaigns
+ */
+router.post('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { name, agentId, purpose, schedule, callingWindow, timezone, phoneRegion, retryPolicy } = req.body;
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'Campaign name is required' });
+    }
+
+    if (timezone && !isValidTimezone(timezone)) {
+      return res.status(400).json({ error: `Invalid time zone: ${timezone}` });
+    }
+
+    if (phoneRegion && !isValidPhoneRegion(phoneRegion)) {
+      return res.status(400).json({ error: `Invalid phone region: ${phoneRegion}` });
+    }
+
+    let window;
+    let policy;
+    try {
+      window = callingWindow ? parseCallingWindow(callingWindow) : undefined;
+      policy = retryPolicy ? parseRetryPolicy(retryPolicy) : undefined;
+    } catch (validationError: any) {
+      return res.status(400).json({ error: validationError.message });
+    }
+
+    const campaign = await Campaign.create({
+      ownerId: userId,
+      name,
+      agentId,
+      purpose,
+      schedule,
+      callingWindow: window,
+      timezone,
+      phoneRegion: phoneRegion || undefined,
+      retryPolicy: policy,
+    });
+
+    res.status(201).json({
+      message: 'Campaign created successfully',
+      campaign: formatCampaign(campaign),
+    });
+  } catch (error: any) {
+    console.error('Create campaign error:', error);
+    res.status(500).json({ error: 'Failed to create campaign', details: error.message });
+  }
+});
+
+/**
+ * Get a specific campaign
+ * GET /api/campaigns/:id
+ */
+router.get('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { id } = req.params;
+
+    if (!Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid campaign ID' });
+    }
+
+    const campaign = await Campaign.findOne({ _id: id, ownerId: userId });
+
+    if (!campaign) {
+      return res.status(404).json({ error: 'Campaign not found' });
+    }
+
+    res.json({ campaign: formatCampaign(campaign) });
+  } catch (error: any) {
+    console.error('Get campaign error:', error);
+    res.status(500).json({ error: 'Failed to fetch campaign', details: error.message });
+  }
+});
+
+/**
+ * Update campaign settings
+ * PATCH /api/campaigns/:id
+ */
+router.patch('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { id } = req.params;
+    const { name, agentId, purpose, schedule, callingWindow, timezone, phoneRegion, retryPolicy } = req.body;
+
+    if (!Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid campaign ID' });
+    }
+
+    const update: Record<string, any> = {};
+    const unset: Record<string, ''> = {};
+
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) {
+        return res.status(400).json({ error: 'Campaign name cannot be empty' });
+      }
+      update.name = name;
+    }
+    if (agentId !== undefined) update.agentId = agentId;
+    if (purpose !== undefined) update.purpose = purpose;
+    if (schedule !== undefined) update.schedule = schedule;
+
+    if (timezone === null) {
+      unset.timezone = '';
+    } else if (timezone !== undefined) {
+      if (!isValidTimezone(timezone)) {
+        return res.status(400).json({ error: `Invalid time zone: ${timezone}` });
+      }
+      update.timezone = timezone;
+    }
+
+    // Passing null falls back to the user's region
+    if (phoneRegion === null) {
+      unset.phoneRegion = '';
+    } else if (phoneRegion !== undefined) {
+      if (!isValidPhoneRegion(phoneRegion)) {
+        return res.status(400).json({ error: `Invalid phone region: ${phoneRegion}` });
+      }
+      update.phoneRegion = phoneRegion;
+    }
+
+    // Passing null removes the window so the campaign can be dialed at any time
+    if (callingWindow === null) {
+      unset.callingWindow = '';
+    } else if (callingWindow !== undefined) {
+      try {
+        update.callingWindow = parseCallingWindow(callingWindow);
+      } catch (validationError: any) {
+        return res.status(400).json({ error: validationError.message });
+      }
+    }
+
+    // Passing null restores the default retry policy
+    if (retryPolicy === null) {
+      unset.retryPolicy = '';
+    } else if (retryPolicy !== undefined) {
+      try {
+        update.retryPolicy = parseRetryPolicy(retryPolicy);
+      } catch (validationError: any) {
+        return res.status(400).json({ error: validationError.message });
+      }
+    }
+
+    const campaign = await Campaign.findOneAndUpdate(
+      { _id: id, ownerId: userId },
+      { $set: update, $unset: unset },
+      { new: true, runValidators: true }
+    );
+
+    if (!campaign) {
+      return res.status(404).json({ error: 'Campaign not found' });
+    }
+
+    // A changed window may make previously deferred calls dialable now
+    if (callingWindow !== undefined || timezone !== undefined) {
+      await BulkCallQueue.updateMany(
+        { userId, campaignId: campaign._id, status: 'queued', callAttempts: 0, nextAttemptAt: { $ne: null } },
+        { $unset: { nextAttemptAt: '' } }
+      );
+      if (userId) {
+        processCallQueue(userId).catch(error => {
+          console.error('Error starting call processor:', error);
+        });
+      }
+    }
+
+    res.json({
+      message: 'Campaign updated successfully',
+      campaign: formatCampaign(campaign),
+    });
+  } catch (error: any) {
+    console.error('Update campaign error:', error);
+    res.status(500).json({ error: 'Failed to update campaign', details: error.message });
+  }
+});
+
+/**
+ * Get call statistics for a campaign
+ * GET /api/campaigns/:id/stats
+ */
+router.get('/:id/stats', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { id } = req.params;
+
+    if (!Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid campaign ID' });
+    }
+
+    const campaign = await Campaign.findOne({ _id: id, ownerId: userId });
+
+    if (!campaign) {
+      return res.status(404).json({ error: 'Campaign not found' });
+    }
+
+    const [summary, budget, spend] = await Promise.all([
+      getQueueStats(userId!, id),
+      checkCampaignBudget(campaign),
+      getCampaignSpend([campaign._id]),
+    ]);
+
+    res.json({
+      campaign: formatCampaign(campaign),
+      summary,
+      spend: {
+        spent: spend.get(campaign._id.toString()) || 0,
+        budgetCap: campaign.budgetCap,
+        projected: budget.projected,
+        overBudget: !budget.allowed,
+      },
+    });
+  } catch (error: any) {
+    console.error('Get campaign stats error:', error);
+    res.status(500).json({ error: 'Failed to fetch campaign stats', details: error.message });
+  }
+});
+
+/**
+ * Pause a campaign
+ * POST /api/campaigns/:id/pause
+ */
+router.post('/:id/pause', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { id } = req.params;
+
+    if (!Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid campaign ID' });
+    }
+
+    const campaign = await Campaign.findOneAndUpdate(
+      { _id: id, ownerId: userId, status: 'active' },
+      { status: 'paused' },
+      { new: true }
+    );
+
+    if (!campaign) {
+      return res.status(404).json({ error: 'Active campaign not found' });
+    }
+
+    res.json({
+      message: 'Campaign paused successfully',
+      campaign: formatCampaign(campaign),
+    });
+  } catch (error: any) {
+    console.error('Pause campaign error:', error);
+    res.status(500).json({ error: 'Failed to pause campaign', details: error.message });
+  }
+});
+
+/**
+ * Resume a paused campaign
+ * POST /api/campaigns/:id/resume
+ */
+router.post('/:id/resume', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { id } = req.params;
+
+    if (!Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid campaign ID' });
+    }
+
+    const campaign = await Campaign.findOneAndUpdate(
+      { _id: id, ownerId: userId, status: 'paused' },
+      { status: 'active' },
+      { new: true }
+    );
+
+    if (!campaign) {
+      return res.status(404).json({ error: 'Paused campaign not found' });
+    }
+
+    // Pick up any calls that were held back while paused
+    if (userId) {
+      processCallQueue(userId).catch(error => {
+        console.error('Error starting call processor:', error);
+      });
+    }
+
+    res.json({
+      message: 'Campaign resumed successfully',
+      campaign: formatCampaign(campaign),
+    });
+  } catch (error: any) {
+    console.error('Resume campaign error:', error);
+    res.status(500).json({ error: 'Failed to resume campaign', details: error.message });
+  }
+});
+
+/**
+ * Delete a campaign and its queued contacts
+ * DELETE /api/campaigns/:id
+ */
+router.delete('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { id } = req.params;
+
+    if (!Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid campaign ID' });
+    }
+
+    // Refuse while calls are still live so their lifecycle events have somewhere to land
+    const liveCalls = await BulkCallQueue.countDocuments({
+      userId,
+      campaignId: id,
+      status: { $in: ACTIVE_CALL_STATUSES },
+    });
+
+    if (liveCalls > 0) {
+      return res.status(409).json({ error: `Campaign has ${liveCalls} call(s) in progress. Pause it and try again later.` });
+    }
+
+    const campaign = await Campaign.findOneAndDelete({ _id: id, ownerId: userId });
+
+    if (!campaign) {
+      return res.status(404).json({ error: 'Campaign not found' });
+    }
+
+    const result = await BulkCallQueue.deleteMany({ userId, campaignId: campaign._id });
+
+    res.json({
+      message: 'Campaign and its contacts deleted successfully',
+      deletedContacts: result.deletedCount,
+    });
+  } catch (error: any) {
+    console.error('Delete campaign error:', error);
+    res.status(500).json({ error: 'Failed to delete campaign', details: error.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,377 @@
+import express, { Router, Response } from 'express';
+import { Types } from 'mongoose';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import Contact, { IContact } from '../models/Contact';
+import Campaign from '../models/Campaign';
+import BulkCallQueue from '../models/BulkCallQueue';
+import User from '../models/User';
+import { processCallQueue } from '../jobs/callProcessor';
+import { getContactTimeline } from '../services/contacts';
+import { isSuppressed } from '../services/suppression';
+import { normalizePhone, resolvePhoneRegion } from '../utils/phone';
+import { resolveTimezone } from '../utils/timezone';
+import { escapeRegex } from '../utils/search';
+
+const router: Router = express.Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+function formatContact(contact: IContact) {
+  return {
+    id: contact._id,
+    name: contact.name,
+    phone: contact.phone,
+    rawPhone: contact.rawPhone,
+    phoneType: contact.phoneType,
+    city: contact.city,
+    email: contact.email,
+    tags: contact.tags,
+    customFields: contact.customFields,
+    notes: contact.notes.map(note => ({ id: note._id, body: note.body, createdAt: note.createdAt })),
+    createdAt: contact.createdAt,
+    updatedAt: contact.updatedAt,
+  };
+}
+
+/**
+ * Validate tags from user input: non-empty strings, trimmed and de-duplicated
+ */
+function parseTags(input: any): string[] {
+  if (!Array.isArray(input) || !input.every(tag => typeof tag === 'string')) {
+    throw new Error('Tags must be a list of strings');
+  }
+  return Array.from(new Set(input.map((tag: string) => tag.trim()).filter(Boolean)));
+}
+
+function parseCustomFields(input: any): Record<string, any> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('Custom fields must be an object');
+  }
+  return input;
+}
+
+/**
+ * List the current user's contacts
+ * GET /api/contacts
+ */
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const search = req.query.search as string;
+    const tag = req.query.tag as string;
+    const skip = (page - 1) * limit;
+
+    const query: any = { userId };
+    if (tag) {
+      query.tags = tag;
+    }
+    if (search) {
+      const pattern = escapeRegex(search);
+      query.$or = [
+        { name: { $regex: pattern, $options: 'i' } },
+        { phone: { $regex: search.replace(/\D/g, '') || pattern, $options: 'i' } },
+        { email: { $regex: pattern, $options: 'i' } },
+      ];
+    }
+
+    const [contacts, total] = await Promise.all([
+      Contact.find(query).sort({ updatedAt: -1 }).skip(skip).limit(limit),
+      Contact.countDocuments(query),
+    ]);
+
+    res.json({
+      contacts: contacts.map(formatContact),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: any) {
+    console.error('Get contacts error:', error);
+    res.status(500).json({ error: 'Failed to fetch contacts', details: error.message });
+  }
+});
+
+/**
+ * Add a contact by hand
+ * POST /api/contacts
+ */
+router.post('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { name, phone, city, email, tags, customFields } = req.body;
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'Contact name is required' });
+    }
+    if (!phone || typeof phone !== 'string') {
+      return res.status(400).json({ error: 'A valid phone number is required' });
+    }
+
+    const user = await User.findById(userId, { phoneRegion: 1 });
+    const normalized = normalizePhone(phone, resolvePhoneRegion(user?.phoneRegion));
+    if (!normalized.valid) {
+      return res.status(400).json({ error: normalized.error });
+    }
+
+    let parsedTags: string[] = [];
+    let parsedFields: Record<string, any> = {};
+    try {
+      if (tags !== undefined) parsedTags = parseTags(tags);
+      if (customFields !== undefined) parsedFields = parseCustomFields(customFields);
+    } catch (validationError: any) {
+      return res.status(400).json({ error: validationError.message });
+    }
+
+    if (await Contact.exists({ userId, phone: normalized.e164 })) {
+      return res.status(409).json({ error: 'A contact with this number already exists' });
+    }
+
+    const contact = await Contact.create({
+      userId,
+      name,
+      phone: normalized.e164,
+      rawPhone: phone,
+      phoneType: normalized.type,
+      city,
+      email,
+      tags: parsedTags,
+      customFields: parsedFields,
+    });
+
+    res.status(201).json({
+      message: 'Contact created successfully',
+      contact: formatContact(contact),
+    });
+  } catch (error: any) {
+    console.error('Create contact error:', error);
+    res.status(500).json({ error: 'Failed to create contact', details: error.message });
+  }
+});
+
+/**
+ * Get a contact with its timeline of calls, chats and notes
+ * GET /api/contacts/:id
+ */
+router.get('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { id } = req.params;
+
+    if (!Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid contact ID' });
+    }
+
+    const contact = await Contact.findOne({ _id: id, userId });
+
+    if (!contact) {
+      return res.status(404).json({ error: 'Contact not found' });
+    }
+
+    res.json({
+      contact: formatContact(contact),
+      timeline: await getContactTimeline(contact),
+    });
+  } catch (error: any) {
+    console.error('Get contact error:', error);
+    res.status(500).json({ error: 'Failed to fetch contact', details: error.message });
+  }
+});
+
+/**
+ * Update a contact's details, tags or custom fields. The phone number is the
+ * contact's identity and cannot be changed.
+ * PATCH /api/contacts/:id
+ */
+router.patch('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { id } = req.params;
+    const { name, city, email, tags, customFields } = req.body;
+
+    if (!Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid contact ID' });
+    }
+
+    const update: Record<string, any> = {};
+
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) {
+        return res.status(400).json({ error: 'Contact name cannot be empty' });
+      }
+      update.name = name;
+    }
+    if (city !== undefined) update.city = city;
+    if (email !== undefined) update.email = email;
+
+    try {
+      if (tags !== undefined) update.tags = parseTags(tags);
+      if (customFields !== undefined) update.customFields = parseCustomFields(customFields);
+    } catch (validationError: any) {
+      return res.status(400).json({ error: validationError.message });
+    }
+
+    const contact = await Contact.findOneAndUpdate(
+      { _id: id, userId },
+      { $set: update },
+      { new: true, runValidators: true }
+    );
+
+    if (!contact) {
+      return res.status(404).json({ error: 'Contact not found' });
+    }
+
+    res.json({
+      message: 'Contact updated successfully',
+      contact: formatContact(contact),
+    });
+  } catch (error: any) {
+    console.error('Update contact error:', error);
+    res.status(500).json({ error: 'Failed to update contact', details: error.message });
+  }
+});
+
+/**
+ * Add a note to a contact's timeline
+ * POST /api/contacts/:id/notes
+ */
+router.post('/:id/notes', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { id } = req.params;
+    const { body } = req.body;
+
+    if (!Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid contact ID' });
+    }
+    if (!body || typeof body !== 'string' || !body.trim()) {
+      return res.status(400).json({ error: 'Note text is required' });
+    }
+
+    const contact = await Contact.findOneAndUpdate(
+      { _id: id, userId },
+      { $push: { notes: { body, createdAt: new Date() } } },
+      { new: true, runValidators: true }
+    );
+
+    if (!contact) {
+      return res.status(404).json({ error: 'Contact not found' });
+    }
+
+    res.status(201).json({
+      message: 'Note added successfully',
+      contact: formatContact(contact),
+    });
+  } catch (error: any) {
+    console.error('Add contact note error:', error);
+    res.status(500).json({ error: 'Failed to add note', details: error.message });
+  }
+});
+
+/**
+ * Remove a note from a contact
+ * DELETE /api/contacts/:id/notes/:noteId
+ */
+router.delete('/:id/notes/:noteId', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { id, noteId } = req.params;
+
+    if (!Types.ObjectId.isValid(id) || !Types.ObjectId.isValid(noteId)) {
+      return res.status(400).json({ error: 'Invalid contact or note ID' });
+    }
+
+    const contact = await Contact.findOneAndUpdate(
+      { _id: id, userId, 'notes._id': noteId },
+      { $pull: { notes: { _id: noteId } } },
+      { new: true }
+    );
+
+    if (!contact) {
+      return res.status(404).json({ error: 'Note not found' });
+    }
+
+    res.json({
+      message: 'Note deleted successfully',
+      contact: formatContact(contact),
+    });
+  } catch (error: any) {
+    console.error('Delete contact note error:', error);
+    res.status(500).json({ error: 'Failed to delete note', details: error.message });
+  }
+});
+
+/**
+ * Queue another call to a contact in one of the user's campaigns
+ * POST /api/contacts/:id/calls
+ */
+router.post('/:id/calls', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { id } = req.params;
+    const { campaignId } = req.body;
+
+    if (!Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid contact ID' });
+    }
+    if (!campaignId || !Types.ObjectId.isValid(campaignId)) {
+      return res.status(400).json({ error: 'A valid campaign ID is required' });
+    }
+
+    const [contact, campaign] = await Promise.all([
+      Contact.findOne({ _id: id, userId }),
+      Campaign.findOne({ _id: campaignId, ownerId: userId }),
+    ]);
+
+    if (!contact) {
+      return res.status(404).json({ error: 'Contact not found' });
+    }
+    if (!campaign) {
+      return res.status(404).json({ error: 'Campaign not found' });
+    }
+
+    if (await isSuppressed(userId!, contact.phone)) {
+      return res.status(409).json({ error: 'Number is on the do-not-call list' });
+    }
+
+    const call = await BulkCallQueue.create({
+      userId,
+      campaignId: campaign._id,
+      contactId: contact._id,
+      name: contact.name,
+      phone: contact.phone,
+      rawPhone: contact.rawPhone,
+      phoneType: contact.phoneType,
+      city: contact.city,
+      email: contact.email,
+      metadata: contact.customFields,
+      timezone: resolveTimezone(contact.phone, contact.city),
+      status: 'queued',
+      callAttempts: 0,
+    });
+
+    processCallQueue(userId!).catch(error => {
+      console.error('Error starting call processor:', error);
+    });
+
+    res.status(201).json({
+      message: 'Call queued successfully',
+      call: {
+        id: call._id,
+        campaignId: call.campaignId,
+        contactId: call.contactId,
+        status: call.status,
+      },
+    });
+  } catch (error: any) {
+    console.error('Queue contact call error:', error);
+    res.status(500).json({ error: 'Failed to queue call', details: error.message });
+  }
+});
+
+export default router;
@@ -1,5 +1,7 @@
 import express, { Router, Response } from 'express';
+import { Types } from 'mongoose';
 import Conversation from '../models/Conversation';
+import Contact from '../models/Contact';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
 
 const router: Router = express.Router();
@@ -20,6 +22,7 @@ router.get('/', async (req: AuthRequest, res: Response) => {
       conversations: conversations.map(conv => ({
         id: conv._id,
         userId: conv.userId,
+        contactId: conv.contactId,
         messages: conv.messages,
         createdAt: conv.createdAt,
         updatedAt: conv.updatedAt,
@@ -47,6 +50,7 @@ router.get('/:id', async (req: AuthRequest, res: Response) => {
       conversation: {
         id: conversation._id,
         userId: conversation.userId,
+        contactId: conversation.contactId,
         messages: conversation.messages,
         createdAt: conversation.createdAt,
         updatedAt: conversation.updatedAt,
@@ -62,15 +66,23 @@ router.get('/:id', async (req: AuthRequest, res: Response) => {
 router.post('/', async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.user?.userId;
-    const { messages } = req.body;
+    const { messages, contactId } = req.body;
 
     if (!messages || !Array.isArray(messages)) {
       return res.status(400).json({ error: 'Messages array is required' });
     }
 
+    // Optionally attach the chat to a contact so it shows on their timeline
+    if (contactId) {
+      if (!Types.ObjectId.isValid(contactId) || !(await Contact.exists({ _id: contactId, userId }))) {
+        return res.status(404).json({ error: 'Contact not found' });
+      }
+    }
+
     // Create new conversation
     const conversation = await Conversation.create({
       userId,
+      contactId: contactId || undefined,
       messages,
     });
 
@@ -79,6 +91,7 @@ router.post('/', async (req: AuthRequest, res: Response) => {
       conversation: {
         id: conversation._id,
         userId: conversation.userId,
+        contactId: conversation.contactId,
         messages: conversation.messages,
         createdAt: conversation.createdAt,
         updatedAt: conversation.updatedAt,
@@ -124,6 +137,7 @@ router.post('/:id/messages', async (req: AuthRequest, res: Response) => {
       conversation: {
         id: conversation._id,
         userId: conversation.userId,
+        contactId: conversation.contactId,
         messages: conversation.messages,
         updatedAt: conversation.updatedAt,
       },
@@ -0,0 +1,158 @@
+import express, { Router, Response } from 'express';
+import { Types } from 'mongoose';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import MappingTemplate, { IMappingTemplate } from '../models/MappingTemplate';
+import { parseColumnMapping } from '../utils/fileParser';
+
+const router: Router = express.Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+function formatTemplate(template: IMappingTemplate) {
+  return {
+    id: template._id,
+    name: template.name,
+    mapping: template.mapping,
+    createdAt: template.createdAt,
+    updatedAt: template.updatedAt,
+  };
+}
+
+/**
+ * List the current user's column mapping templates
+ * GET /api/mapping-templates
+ */
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const templates = await MappingTemplate.find({ userId }).sort({ name: 1 });
+
+    res.json({ templates: templates.map(formatTemplate) });
+  } catch (error: any) {
+    console.error('Get mapping templates error:', error);
+    res.status(500).json({ error: 'Failed to fetch mapping templates', details: error.message });
+  }
+});
+
+/**
+ * Save a column mapping as a reusable template
+ * POST /api/mapping-templates
+ */
+router.post('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { name, mapping } = req.body;
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'Template name is required' });
+    }
+
+    let columnMapping;
+    try {
+      columnMapping = parseColumnMapping(mapping);
+    } catch (validationError: any) {
+      return res.status(400).json({ error: validationError.message });
+    }
+
+    if (await MappingTemplate.exists({ userId, name: name.trim() })) {
+      return res.status(409).json({ error: 'A template with this name already exists' });
+    }
+
+    const template = await MappingTemplate.create({
+      userId,
+      name: name.trim(),
+      mapping: columnMapping,
+    });
+
+    res.status(201).json({
+      message: 'Mapping template saved',
+      template: formatTemplate(template),
+    });
+  } catch (error: any) {
+    console.error('Create mapping template error:', error);
+    res.status(500).json({ error: 'Failed to save mapping template', details: error.message });
+  }
+});
+
+/**
+ * Rename a template or replace its mapping
+ * PATCH /api/mapping-templates/:id
+ */
+router.patch('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { id } = req.params;
+    const { name, mapping } = req.body;
+
+    if (!Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid template ID' });
+    }
+
+    const update: Record<string, any> = {};
+
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) {
+        return res.status(400).json({ error: 'Template name cannot be empty' });
+      }
+      if (await MappingTemplate.exists({ userId, name: name.trim(), _id: { $ne: id } })) {
+        return res.status(409).json({ error: 'A template with this name already exists' });
+      }
+      update.name = name.trim();
+    }
+
+    if (mapping !== undefined) {
+      try {
+        update.mapping = parseColumnMapping(mapping);
+      } catch (validationError: any) {
+        return res.status(400).json({ error: validationError.message });
+      }
+    }
+
+    const template = await MappingTemplate.findOneAndUpdate(
+      { _id: id, userId },
+      { $set: update },
+      { new: true }
+    );
+
+    if (!template) {
+      return res.status(404).json({ error: 'Template not found' });
+    }
+
+    res.json({
+      message: 'Mapping template updated',
+      template: formatTemplate(template),
+    });
+  } catch (error: any) {
+    console.error('Update mapping template error:', error);
+    res.status(500).json({ error: 'Failed to update mapping template', details: error.message });
+  }
+});
+
+/**
+ * Delete a template
+ * DELETE /api/mapping-templates/:id
+ */
+router.delete('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { id } = req.params;
+
+    if (!Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid template ID' });
+    }
+
+    const template = await MappingTemplate.findOneAndDelete({ _id: id, userId });
+
+    if (!template) {
+      return res.status(404).json({ error: 'Template not found' });
+    }
+
+    res.json({ message: 'Mapping template deleted' });
+  } catch (error: any) {
+    console.error('Delete mapping template error:', error);
+    res.status(500).json({ error: 'Failed to delete mapping template', details: error.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,105 @@
+import express, { Router, Request, Response } from 'express';
+import { Types } from 'mongoose';
+import BulkCallQueue from '../models/BulkCallQueue';
+import { getRecordingStorage, ByteRange } from '../services/recordingStorage';
+import { isValidRecordingSignature } from '../services/recordings';
+
+const router: Router = express.Router();
+
+// Requests come from audio elements, which cannot send a bearer token, so access is
+// granted by the signed URL handed out by GET /api/bulk-calls/:id/interaction
+
+/**
+ * Parse a single "bytes=start-end" range header. Returns null when the range cannot
+ * be satisfied and undefined when there is no usable range (serve the whole file).
+ */
+function parseRange(header: string | undefined, size: number): ByteRange | null | undefined {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) {
+    return undefined;
+  }
+
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    start = Math.max(size - parseInt(match[2]), 0);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1]);
+    end = match[2] ? Math.min(parseInt(match[2]), size - 1) : size - 1;
+  }
+
+  if (start > end || start >= size) {
+    return null;
+  }
+  return { start, end };
+}
+
+/**
+ * Stream an archived call recording, honouring Range requests for seeking
+ * GET /api/recordings/:id?expires=&signature=
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { expires, signature } = req.query;
+
+    if (!expires || !signature) {
+      return res.status(401).json({ error: 'Signed recording URL required' });
+    }
+
+    if (!Types.ObjectId.isValid(id) || !isValidRecordingSignature(id, expires as string, signature as string)) {
+      return res.status(403).json({ error: 'Invalid or expired recording URL' });
+    }
+
+    const call = await BulkCallQueue.findById(id);
+    if (!call) {
+      return res.status(404).json({ error: 'Call not found' });
+    }
+
+    if (call.recordingExpiredAt) {
+      return res.status(410).json({ error: 'Recording was removed after the retention period' });
+    }
+
+    if (!call.recordingKey) {
+      return res.status(404).json({ error: 'Recording has not been archived' });
+    }
+
+    const storage = getRecordingStorage();
+    const stored = await storage.stat(call.recordingKey);
+    if (!stored) {
+      return res.status(404).json({ error: 'Recording file not found' });
+    }
+
+    res.setHeader('Accept-Ranges', 'bytes');
+    res.setHeader('Content-Type', call.recordingContentType || 'audio/mpeg');
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+
+    const range = parseRange(req.headers.range, stored.size);
+    if (range === null) {
+      res.setHeader('Content-Range', `bytes */${stored.size}`);
+      return res.status(416).end();
+    }
+
+    if (range) {
+      res.status(206);
+      res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${stored.size}`);
+      res.setHeader('Content-Length', range.end - range.start + 1);
+    } else {
+      res.setHeader('Content-Length', stored.size);
+    }
+
+    const stream = storage.createReadStream(call.recordingKey, range);
+    stream.on('error', (error) => {
+      console.error('Recording stream error:', error);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+  } catch (error: any) {
+    console.error('Stream recording error:', error);
+    res.status(500).json({ error: 'Failed to stream recording', details: error.message });
+  }
+});
+
+export default router;
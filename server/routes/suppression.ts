@@ -0,0 +1,187 @@
+import express, { Router, Response } from 'express';
+import fs from 'fs';
+import { Types } from 'mongoose';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { upload, AuthRequestWithFile } from '../middleware/upload';
+import SuppressionEntry, { ISuppressionEntry } from '../models/SuppressionEntry';
+import User from '../models/User';
+import { addSuppression } from '../services/suppression';
+import { parseSuppressionFile } from '../utils/fileParser';
+import { normalizePhone, resolvePhoneRegion } from '../utils/phone';
+
+const router: Router = express.Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+function formatEntry(entry: ISuppressionEntry) {
+  return {
+    id: entry._id,
+    phone: entry.phone,
+    source: entry.source,
+    reason: entry.reason,
+    bulkCallId: entry.bulkCallId,
+    createdAt: entry.createdAt,
+  };
+}
+
+/**
+ * List the current user's do-not-call entries
+ * GET /api/suppression
+ */
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 50;
+    const search = req.query.search as string;
+    const skip = (page - 1) * limit;
+
+    const query: any = { userId };
+    if (search) {
+      query.phone = { $regex: search.replace(/\D/g, ''), $options: 'i' };
+    }
+
+    const [entries, total] = await Promise.all([
+      SuppressionEntry.find(query).sort({ createdAt: -1 }).skip(skip).limit(limit),
+      SuppressionEntry.countDocuments(query),
+    ]);
+
+    res.json({
+      entries: entries.map(formatEntry),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: any) {
+    console.error('Get suppression list error:', error);
+    res.status(500).json({ error: 'Failed to fetch suppression list', details: error.message });
+  }
+});
+
+/**
+ * Add a single number to the do-not-call list
+ * POST /api/suppression
+ */
+router.post('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { phone, reason } = req.body;
+
+    if (!phone || typeof phone !== 'string') {
+      return res.status(400).json({ error: 'A valid phone number is required' });
+    }
+
+    const user = await User.findById(userId, { phoneRegion: 1 });
+    const normalized = normalizePhone(phone, resolvePhoneRegion(user?.phoneRegion));
+    if (!normalized.valid) {
+      return res.status(400).json({ error: normalized.error });
+    }
+
+    const key = normalized.e164;
+    if (await SuppressionEntry.exists({ userId, phone: key })) {
+      return res.status(409).json({ error: 'Number is already on the do-not-call list' });
+    }
+
+    const entry = await SuppressionEntry.create({
+      userId,
+      phone: key,
+      source: 'manual',
+      reason: reason?.trim() || undefined,
+    });
+
+    res.status(201).json({
+      message: 'Number added to the do-not-call list',
+      entry: formatEntry(entry),
+    });
+  } catch (error: any) {
+    console.error('Add suppression error:', error);
+    res.status(500).json({ error: 'Failed to add number', details: error.message });
+  }
+});
+
+/**
+ * Import numbers into the do-not-call list from a CSV or Excel file
+ * POST /api/suppression/import
+ */
+router.post('/import', upload.single('file'), async (req: AuthRequestWithFile, res: Response) => {
+  let filePath: string | undefined;
+
+  try {
+    const userId = req.user?.userId;
+    const file = req.file;
+
+    if (!file || !file.path) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+
+    filePath = file.path;
+    const user = await User.findById(userId, { phoneRegion: 1 });
+    const parseResult = parseSuppressionFile(filePath, resolvePhoneRegion(user?.phoneRegion));
+
+    if (!parseResult.success || parseResult.rows.length === 0) {
+      return res.status(400).json({
+        error: 'Failed to parse file',
+        details: parseResult.errors,
+        totalRows: parseResult.totalRows,
+      });
+    }
+
+    let added = 0;
+    for (const row of parseResult.rows) {
+      if (await addSuppression(userId!, row.phone, 'import', row.reason)) {
+        added++;
+      }
+    }
+
+    res.status(201).json({
+      message: `${added} numbers added to the do-not-call list`,
+      summary: {
+        totalRows: parseResult.totalRows,
+        added,
+        alreadyListed: parseResult.rows.length - added,
+        errors: parseResult.errors.length,
+      },
+      errors: parseResult.errors,
+    });
+  } catch (error: any) {
+    console.error('Import suppression list error:', error);
+    res.status(500).json({ error: 'Failed to import suppression list', details: error.message });
+  } finally {
+    // Clean up uploaded file
+    if (filePath && fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+  }
+});
+
+/**
+ * Remove a number from the do-not-call list
+ * DELETE /api/suppression/:id
+ */
+router.delete('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    const { id } = req.params;
+
+    if (!Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'Invalid entry ID' });
+    }
+
+    const entry = await SuppressionEntry.findOneAndDelete({ _id: id, userId });
+
+    if (!entry) {
+      return res.status(404).json({ error: 'Entry not found' });
+    }
+
+    res.json({ message: 'Number removed from the do-not-call list' });
+  } catch (error: any) {
+    console.error('Delete suppression error:', error);
+    res.status(500).json({ error: 'Failed to remove number', details: error.message });
+  }
+});
+
+export default router;
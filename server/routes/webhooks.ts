@@ -0,0 +1,64 @@
+import express, { Router, Response } from 'express';
+import { verifyWebhookSecret, WebhookRequest } from '../middleware/webhook';
+import BulkCallQueue, { ACTIVE_CALL_STATUSES } from '../models/BulkCallQueue';
+import { normalizeCallStatus, applyExecutionData, applyLifecycleEvent } from '../services/callEvents';
+import { applyRetryPolicy } from '../services/retryPolicy';
+import { suppressIfOptedOut } from '../services/suppression';
+import { processCallQueue } from '../jobs/callProcessor';
+import { recordExecutionSync } from '../jobs/executionSync';
+
+const router: Router = express.Router();
+
+/**
+ * Receive Bolna execution lifecycle events
+ * POST /api/webhooks/bolna
+ */
+router.post('/bolna', verifyWebhookSecret, async (req: WebhookRequest, res: Response) => {
+  try {
+    const payload = req.body || {};
+    const executionId = payload.execution_id || payload.id || payload.call_id;
+
+    if (!executionId) {
+      return res.status(400).json({ error: 'Execution ID is required' });
+    }
+
+    const event = normalizeCallStatus(payload.status);
+    if (!event) {
+      return res.status(400).json({ error: `Unsupported call status: ${payload.status}` });
+    }
+
+    const call = await BulkCallQueue.findOne({ bolnaCallId: executionId });
+
+    // Acknowledge unknown executions so the provider does not keep retrying them
+    if (!call) {
+      console.warn(`⚠️ Webhook for unknown execution ${executionId} (${event})`);
+      return res.json({ received: true, matched: false });
+    }
+
+    applyExecutionData(call, payload);
+    await suppressIfOptedOut(call);
+
+    if (applyLifecycleEvent(call, event, payload.telephony_data?.hangup_reason)) {
+      await applyRetryPolicy(call);
+    }
+    recordExecutionSync(call, payload);
+
+    await call.save();
+
+    console.log(`📨 Webhook: execution ${executionId} -> ${event}`);
+
+    // A finished call frees a line, so let the user's queue continue
+    if (!ACTIVE_CALL_STATUSES.includes(call.status)) {
+      processCallQueue(call.userId).catch(error => {
+        console.error('Error resuming call queue:', error);
+      });
+    }
+
+    res.json({ received: true, matched: true, callId: call._id, event, status: call.status });
+  } catch (error: any) {
+    console.error('Bolna webhook error:', error);
+    res.status(500).json({ error: 'Failed to process webhook', details: error.message });
+  }
+});
+
+export default router;
@@ -1,4 +1,6 @@
 import axios from 'axios';
+import { formatPhoneNumber } from '../utils/phone';
+import type { TelephonyProvider, OutboundCallOptions, OutboundCallResult, CallExecution } from './telephony';
 
 const BOLNA_API_URL = 'https://api.bolna.ai';
 
@@ -8,12 +10,7 @@ export interface BolnaCallRequest {
   metadata?: Record<string, any>;
 }
 
-export interface BolnaCallResponse {
-  success: boolean;
-  callId?: string;
-  message?: string;
-  error?: string;
-}
+export type BolnaCallResponse = OutboundCallResult;
 
 /**
  * Trigger an outbound call via Bolna.ai API
@@ -22,12 +19,13 @@ export async function triggerOutboundCall(
   phone: string,
   contactName: string,
   userId: string,
-  additionalMetadata?: Record<string, any>
+  additionalMetadata?: Record<string, any>,
+  options?: OutboundCallOptions
 ): Promise<BolnaCallResponse> {
   try {
     // Read environment variables inside function after dotenv loads
     const BOLNA_API_KEY = process.env.BOLNA_API_KEY;
-    const BOLNA_AGENT_ID = process.env.BOLNA_AGENT_ID || 'default-agent-id';
+    const BOLNA_AGENT_ID = options?.agentId || process.env.BOLNA_AGENT_ID || 'default-agent-id';
     
     if (!BOLNA_API_KEY) {
       throw new Error('BOLNA_API_KEY is not configured in environment variables');
@@ -37,40 +35,21 @@ export async function triggerOutboundCall(
       throw new Error('BOLNA_AGENT_ID is not configured. Please add your Bolna Agent ID to .env.local file. Get it from https://app.bolna.dev');
     }
 
-    // MOCK MODE: If enabled, simulate a successful call without hitting the API
-    if (process.env.MOCK_BOLNA_CALLS === 'true') {
-      console.log(`⚠️ MOCK MODE ENABLED: Simulating successful call to ${phone}`);
-      await new Promise(resolve => setTimeout(resolve, 1000)); // Simulate network delay
-      return {
-        success: true,
-        callId: `mock-call-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        message: 'Call initiated successfully (MOCK)',
-      };
-    }
+    // Callers pass E.164 already; this only tidies numbers stored before normalisation
+    const formattedPhone = formatPhoneNumber(phone);
 
-    // Format phone number: Ensure it has country code if it's a 10-digit number (assuming India +91)
-    let formattedPhone = phone.trim();
-    // Remove any spaces or dashes
-    formattedPhone = formattedPhone.replace(/[\s-]/g, '');
-    
-    if (!formattedPhone.startsWith('+')) {
-      if (formattedPhone.length === 10) {
-        formattedPhone = '+91' + formattedPhone;
-      } else {
-        // If it's not 10 digits and doesn't start with +, we might want to warn or just try adding +
-        formattedPhone = '+' + formattedPhone;
-      }
-    }
+    // Contact variables come first so a column named like a system field cannot replace it
+    const userData = {
+      ...additionalMetadata,
+      uploadedBy: userId,
+      contactName: contactName,
+    };
 
     console.log(`📞 Triggering Bolna call to ${formattedPhone} (original: ${phone}) (${contactName})...`);
     console.log('Payload:', JSON.stringify({
       agent_id: BOLNA_AGENT_ID,
       recipient_phone_number: formattedPhone,
-      user_data: {
-        uploadedBy: userId,
-        contactName: contactName,
-        ...additionalMetadata,
-      },
+      user_data: userData,
     }, null, 2));
 
     const response = await axios.post(
@@ -78,11 +57,7 @@ export async function triggerOutboundCall(
       {
         agent_id: BOLNA_AGENT_ID,
         recipient_phone_number: formattedPhone,
-        user_data: {
-          uploadedBy: userId,
-          contactName: contactName,
-          ...additionalMetadata,
-        },
+        user_data: userData,
       },
       {
         headers: {
@@ -143,7 +118,7 @@ export async function triggerOutboundCall(
 /**
  * Get call status from Bolna.ai
  */
-export async function getCallStatus(callId: string): Promise<any> {
+export async function getCallStatus(callId: string): Promise<CallExecution> {
   try {
     // Read environment variable inside function after dotenv loads
     const BOLNA_API_KEY = process.env.BOLNA_API_KEY;
@@ -170,40 +145,10 @@ export async function getCallStatus(callId: string): Promise<any> {
 }
 
 /**
- * Validate phone number format
- */
-export function validatePhoneNumber(phone: string): boolean {
-  // Remove all non-digit characters
-  const cleaned = phone.replace(/\D/g, '');
-  
-  // Check if it's a valid length (10-15 digits)
-  if (cleaned.length < 10 || cleaned.length > 15) {
-    return false;
-  }
-  
-  // Basic validation - starts with country code or valid digit
-  return /^[1-9]\d{9,14}$/.test(cleaned);
-}
-
-/**
- * Format phone number to E.164 format
+ * Bolna.ai implementation of the telephony provider interface
  */
-export function formatPhoneNumber(phone: string): string {
-  // Remove all non-digit characters
-  let cleaned = phone.replace(/\D/g, '');
-  
-  // Add + prefix if not present
-  if (!phone.startsWith('+')) {
-    // Assume India based on length (10 digits)
-    if (cleaned.length === 10) {
-      cleaned = '+91' + cleaned;
-    } else {
-      cleaned = '+' + cleaned;
-    }
-  } else {
-    // If it already started with +, just ensure the + is kept with the cleaned digits
-    cleaned = '+' + cleaned;
-  }
-  
-  return cleaned;
-}
+export const bolnaProvider: TelephonyProvider = {
+  name: 'bolna',
+  triggerOutboundCall,
+  getCallStatus,
+};
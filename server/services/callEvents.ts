@@ -0,0 +1,130 @@
+import { IBulkCallQueue, CallStatus, canTransition } from '../models/BulkCallQueue';
+import type { CallExecution } from './telephony';
+import { parseTranscript } from '../utils/transcript';
+
+export type CallLifecycleEvent =
+  | 'initiated'
+  | 'ringing'
+  | 'in-progress'
+  | 'completed'
+  | 'failed'
+  | 'no-answer'
+  | 'busy';
+
+// Provider status spellings mapped onto our lifecycle events
+const STATUS_ALIASES: Record<string, CallLifecycleEvent> = {
+  initiated: 'initiated',
+  queued: 'initiated',
+  'call-initiated': 'initiated',
+  ringing: 'ringing',
+  'in-progress': 'in-progress',
+  in_progress: 'in-progress',
+  answered: 'in-progress',
+  completed: 'completed',
+  'call-disconnected': 'completed',
+  failed: 'failed',
+  error: 'failed',
+  canceled: 'failed',
+  cancelled: 'failed',
+  'no-answer': 'no-answer',
+  no_answer: 'no-answer',
+  busy: 'busy',
+};
+
+// Queue status each lifecycle event moves a record to
+const EVENT_STATUS: Record<CallLifecycleEvent, CallStatus> = {
+  initiated: 'dialing',
+  ringing: 'ringing',
+  'in-progress': 'in_progress',
+  completed: 'completed',
+  failed: 'failed',
+  'no-answer': 'no_answer',
+  busy: 'busy',
+};
+
+// Events after which the provider will not report anything new for the call
+const FINAL_EVENTS: CallLifecycleEvent[] = ['completed', 'failed', 'no-answer', 'busy'];
+
+/**
+ * Normalise a provider-reported status into a lifecycle event
+ */
+export function normalizeCallStatus(status?: string): CallLifecycleEvent | undefined {
+  if (!status) {
+    return undefined;
+  }
+  return STATUS_ALIASES[status.trim().toLowerCase()];
+}
+
+/**
+ * Whether an execution has reached its final state with all details filled in.
+ * Bolna reports "call-disconnected" when the line drops and "completed" only once
+ * the transcript and extracted data are ready, so only the latter counts.
+ */
+export function isFinalExecution(execution: CallExecution): boolean {
+  const event = normalizeCallStatus(execution.status);
+  if (!event || !FINAL_EVENTS.includes(event)) {
+    return false;
+  }
+  return execution.status?.trim().toLowerCase() !== 'call-disconnected';
+}
+
+/**
+ * Copy execution details (transcript, recording, hangup data, ...) onto a queue record.
+ * Fields missing from the execution leave the stored values untouched.
+ */
+export function applyExecutionData(call: IBulkCallQueue, execution: CallExecution): void {
+  const telephony = execution.telephony_data || {};
+
+  if (execution.status !== undefined) call.callStatus = execution.status;
+  if (execution.conversation_time !== undefined) call.conversationTime = execution.conversation_time;
+  if (execution.transcript !== undefined) {
+    // A new transcript (e.g. from a retried call) needs analysing again
+    if (execution.transcript !== call.transcript) {
+      call.analysis = undefined;
+      call.analysisAttempts = 0;
+    }
+    call.transcript = execution.transcript;
+    call.transcriptTurns = execution.transcript ? parseTranscript(execution.transcript, call.conversationTime) : [];
+  }
+  // Recordings removed by the retention period are not brought back
+  if (telephony.recording_url !== undefined && !call.recordingExpiredAt) {
+    if (telephony.recording_url !== call.recordingUrl) {
+      call.recordingArchiveAttempts = 0;
+    }
+    call.recordingUrl = telephony.recording_url;
+  }
+  if (telephony.hangup_by !== undefined) call.hangupBy = telephony.hangup_by;
+  if (telephony.hangup_reason !== undefined) call.hangupReason = telephony.hangup_reason;
+  if (execution.extracted_data !== undefined) call.extractedData = execution.extracted_data;
+  if (execution.cost_breakdown !== undefined) call.costBreakdown = execution.cost_breakdown;
+  if (execution.total_cost !== undefined) {
+    call.totalCost = execution.total_cost;
+  } else if (execution.cost_breakdown !== undefined) {
+    call.totalCost = Object.values(execution.cost_breakdown).reduce((sum, cost) => sum + (Number(cost) || 0), 0);
+  }
+}
+
+/**
+ * Advance a queue record's status for a lifecycle event. Out-of-order events that
+ * would be illegal transitions (e.g. "ringing" after "completed") are ignored.
+ * Returns true when the status changed.
+ */
+export function applyLifecycleEvent(call: IBulkCallQueue, event: CallLifecycleEvent, reason?: string): boolean {
+  const target = EVENT_STATUS[event];
+  if (call.status === target) {
+    return false;
+  }
+
+  if (!canTransition(call.status, target)) {
+    console.warn(`⚠️ Ignoring ${event} event for call ${call._id}: cannot move from ${call.status} to ${target}`);
+    return false;
+  }
+
+  call.transitionTo(target, reason);
+
+  if (target === 'failed' || target === 'no_answer' || target === 'busy') {
+    call.errorMessage = reason || `Call ${event}`;
+  }
+
+  return true;
+}
@@ -0,0 +1,116 @@
+import xlsx from 'xlsx';
+import { IBulkCallQueue } from '../models/BulkCallQueue';
+
+export const EXPORT_FORMATS = ['csv', 'xlsx'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+// Excel refuses cells longer than this
+const MAX_CELL_LENGTH = 32767;
+
+const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export function exportContentType(format: ExportFormat): string {
+  return EXPORT_CONTENT_TYPES[format];
+}
+
+/**
+ * Flatten nested extracted data into dotted keys, e.g. { lead: { score: 3 } } -> { "lead.score": 3 }.
+ * Arrays are kept as JSON.
+ */
+export function flattenExtractedData(data: any, prefix = ''): Record<string, string | number | boolean> {
+  const flat: Record<string, string | number | boolean> = {};
+  if (!data || typeof data !== 'object') {
+    return flat;
+  }
+
+  Object.entries(data).forEach(([key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (value === null || value === undefined) {
+      return;
+    }
+    if (Array.isArray(value)) {
+      flat[path] = JSON.stringify(value);
+    } else if (typeof value === 'object') {
+      Object.assign(flat, flattenExtractedData(value, path));
+    } else {
+      flat[path] = value as string | number | boolean;
+    }
+  });
+
+  return flat;
+}
+
+function cell(value: any): string | number | boolean {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'string' && value.length > MAX_CELL_LENGTH) {
+    return value.slice(0, MAX_CELL_LENGTH - 3) + '...';
+  }
+  return value;
+}
+
+/**
+ * One row per call with its outcome; every extracted data field found in any
+ * call gets its own "extracted.*" column
+ */
+export function buildCallExportRows(
+  calls: IBulkCallQueue[],
+  campaignNames: Map<string, string>
+): Record<string, string | number | boolean>[] {
+  const extracted = calls.map(call => flattenExtractedData(call.extractedData));
+  const extractedKeys = Array.from(new Set(extracted.flatMap(fields => Object.keys(fields)))).sort();
+
+  return calls.map((call, index) => {
+    const row: Record<string, string | number | boolean> = {
+      'Name': cell(call.name),
+      'Phone': cell(call.phone),
+      'Phone (as uploaded)': cell(call.rawPhone),
+      'City': cell(call.city),
+      'Email': cell(call.email),
+      'Campaign': cell(call.campaignId ? campaignNames.get(call.campaignId.toString()) : ''),
+      'Status': cell(call.status),
+      'Attempts': cell(call.callAttempts),
+      'Last Attempt': cell(call.lastAttemptAt),
+      'Conversation Time (s)': cell(call.conversationTime),
+      'Hangup By': cell(call.hangupBy),
+      'Hangup Reason': cell(call.hangupReason),
+      'Total Cost': cell(call.totalCost),
+      'Recording URL': cell(call.recordingUrl),
+      'Error': cell(call.errorMessage),
+      'Transcript': cell(call.transcript),
+      'Summary': cell(call.analysis?.summary),
+      'Sentiment': cell(call.analysis?.sentiment),
+      'Disposition': cell(call.analysis?.disposition),
+      'Next Action': cell(call.analysis?.nextAction),
+      'Created At': cell(call.createdAt),
+    };
+    extractedKeys.forEach(key => {
+      row[`extracted.${key}`] = cell(extracted[index][key]);
+    });
+    return row;
+  });
+}
+
+/**
+ * Write export rows as a CSV or XLSX file
+ */
+export function writeCallExport(rows: Record<string, string | number | boolean>[], format: ExportFormat): Buffer {
+  const worksheet = xlsx.utils.json_to_sheet(rows);
+
+  if (format === 'csv') {
+    // The byte order mark makes Excel open the file as UTF-8
+    return Buffer.from('\uFEFF' + xlsx.utils.sheet_to_csv(worksheet), 'utf-8');
+  }
+
+  const workbook = xlsx.utils.book_new();
+  xlsx.utils.book_append_sheet(workbook, worksheet, 'Calls');
+  return xlsx.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+}
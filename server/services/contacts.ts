@@ -0,0 +1,182 @@
+import { Types, mongo } from 'mongoose';
+import Contact, { IContact } from '../models/Contact';
+import BulkCallQueue from '../models/BulkCallQueue';
+import Conversation from '../models/Conversation';
+import type { ParsedContact } from '../utils/fileParser';
+import { normalizePhone } from '../utils/phone';
+
+export type TimelineEntry =
+  | {
+      type: 'call';
+      at: Date;
+      id: Types.ObjectId;
+      campaignId?: Types.ObjectId;
+      status: string;
+      callAttempts: number;
+      conversationTime?: number;
+      recordingUrl?: string;
+    }
+  | { type: 'chat'; at: Date; id: Types.ObjectId; messageCount: number; preview?: string }
+  | { type: 'note'; at: Date; id: Types.ObjectId; body: string };
+
+/**
+ * Contact fields as found in an uploaded row; columns left empty are omitted
+ */
+export function contactFieldsFromRow(contact: ParsedContact): Record<string, any> {
+  const fields: Record<string, any> = {
+    name: contact.name,
+    rawPhone: contact.rawPhone,
+    phoneType: contact.phoneType,
+  };
+  if (contact.city) fields.city = contact.city;
+  if (contact.email) fields.email = contact.email;
+  Object.entries(contact.variables || {}).forEach(([variable, value]) => {
+    fields[`customFields.${variable}`] = value;
+  });
+  return fields;
+}
+
+/**
+ * Find or create the directory entry for each uploaded contact, keyed on the
+ * normalised phone. Existing contacts are left as they are.
+ * Returns the contact ID for every phone.
+ */
+export async function upsertContacts(userId: string, contacts: ParsedContact[]): Promise<Map<string, Types.ObjectId>> {
+  if (contacts.length === 0) {
+    return new Map();
+  }
+
+  try {
+    await Contact.bulkWrite(
+      contacts.map(contact => ({
+        updateOne: {
+          filter: { userId, phone: contact.phone },
+          update: {
+            $setOnInsert: {
+              name: contact.name,
+              rawPhone: contact.rawPhone,
+              phoneType: contact.phoneType,
+              city: contact.city,
+              email: contact.email,
+              tags: [],
+              customFields: contact.variables || {},
+              notes: [],
+            },
+          },
+          upsert: true,
+        },
+      })),
+      { ordered: false }
+    );
+  } catch (error: any) {
+    // An import running at the same time can insert the same phone between our upsert's
+    // lookup and insert. The contact exists either way, so only other failures are raised.
+    const writeErrors = error instanceof mongo.MongoBulkWriteError
+      ? ([] as mongo.WriteError[]).concat(error.writeErrors)
+      : [];
+    if (writeErrors.length === 0 || writeErrors.some(writeError => writeError.code !== 11000)) {
+      throw error;
+    }
+  }
+
+  const saved = await Contact.find({ userId, phone: { $in: contacts.map(c => c.phone) } }, { phone: 1 });
+  return new Map(saved.map(contact => [contact.phone, contact._id]));
+}
+
+/**
+ * Calls, chats and notes for a contact, newest first
+ */
+export async function getContactTimeline(contact: IContact): Promise<TimelineEntry[]> {
+  const [calls, chats] = await Promise.all([
+    BulkCallQueue.find({ userId: contact.userId, contactId: contact._id }).sort({ createdAt: -1 }),
+    Conversation.find({ userId: contact.userId, contactId: contact._id }).sort({ updatedAt: -1 }),
+  ]);
+
+  const timeline: TimelineEntry[] = [
+    ...calls.map(call => ({
+      type: 'call' as const,
+      at: call.lastAttemptAt || call.createdAt,
+      id: call._id,
+      campaignId: call.campaignId,
+      status: call.status,
+      callAttempts: call.callAttempts,
+      conversationTime: call.conversationTime,
+      recordingUrl: call.recordingUrl,
+    })),
+    ...chats.map(chat => ({
+      type: 'chat' as const,
+      at: chat.updatedAt,
+      id: chat._id,
+      messageCount: chat.messages.length,
+      preview: chat.messages[chat.messages.length - 1]?.content.slice(0, 200),
+    })),
+    ...contact.notes.map(note => ({
+      type: 'note' as const,
+      at: note.createdAt,
+      id: note._id,
+      body: note.body,
+    })),
+  ];
+
+  return timeline.sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime());
+}
+
+/**
+ * Create directory entries for queue records saved before contacts existed and link them.
+ * Records whose number cannot be normalised are left unlinked.
+ */
+export async function backfillContacts(): Promise<void> {
+  try {
+    const groups = await BulkCallQueue.aggregate([
+      { $match: { contactId: { $exists: false } } },
+      { $sort: { createdAt: 1 } },
+      {
+        $group: {
+          _id: { userId: '$userId', phone: '$phone' },
+          name: { $last: '$name' },
+          city: { $last: '$city' },
+          email: { $last: '$email' },
+          metadata: { $last: '$metadata' },
+        },
+      },
+    ]);
+
+    let linked = 0;
+    for (const group of groups) {
+      const { userId, phone } = group._id;
+      const normalized = normalizePhone(phone);
+      if (!normalized.valid) {
+        continue;
+      }
+
+      const contact = await Contact.findOneAndUpdate(
+        { userId, phone: normalized.e164 },
+        {
+          $setOnInsert: {
+            name: group.name,
+            rawPhone: phone,
+            phoneType: normalized.type,
+            city: group.city,
+            email: group.email,
+            tags: [],
+            customFields: group.metadata || {},
+            notes: [],
+          },
+        },
+        { upsert: true, new: true }
+      );
+
+      const result = await BulkCallQueue.updateMany(
+        { userId, phone, contactId: { $exists: false } },
+        { $set: { contactId: contact._id } }
+      );
+      linked += result.modifiedCount;
+    }
+
+    if (linked > 0) {
+      console.log(`📇 Linked ${linked} bulk call records to the contacts directory`);
+    }
+  } catch (error: any) {
+    console.error('Error backfilling contacts:', error.message);
+  }
+}
@@ -0,0 +1,131 @@
+import BulkCallQueue, { ACTIVE_CALL_STATUSES } from '../models/BulkCallQueue';
+
+export interface DialerLimits {
+  callsPerSecond: number;
+  burst: number;
+  maxLiveCalls: number;
+  maxLiveCallsPerUser: number;
+  maxCallsPerUserPerHour: number;
+  liveCallTimeoutMinutes: number;
+}
+
+export type DialSlot = { allowed: true } | { allowed: false; reason: string };
+
+function readLimit(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Dialer limits from the environment. A limit of 0 disables that check.
+ */
+export function getDialerLimits(): DialerLimits {
+  // Read environment variables inside function after dotenv loads
+  return {
+    callsPerSecond: readLimit('DIALER_CALLS_PER_SECOND', 1),
+    burst: readLimit('DIALER_BURST', 1),
+    maxLiveCalls: readLimit('DIALER_MAX_LIVE_CALLS', 20),
+    maxLiveCallsPerUser: readLimit('DIALER_MAX_LIVE_CALLS_PER_USER', 5),
+    maxCallsPerUserPerHour: readLimit('DIALER_MAX_CALLS_PER_USER_PER_HOUR', 0),
+    liveCallTimeoutMinutes: readLimit('DIALER_LIVE_CALL_TIMEOUT_MINUTES', 60),
+  };
+}
+
+/**
+ * Classic token bucket: refills at `ratePerSecond` up to `capacity` tokens,
+ * and each dial spends one
+ */
+class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(private ratePerSecond: number, private capacity: number) {
+    this.tokens = capacity;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.ratePerSecond);
+    this.lastRefill = now;
+  }
+
+  async take(): Promise<void> {
+    while (true) {
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      const waitMs = ((1 - this.tokens) / this.ratePerSecond) * 1000;
+      await new Promise(resolve => setTimeout(resolve, Math.ceil(waitMs)));
+    }
+  }
+}
+
+// Shared by every processor in this server instance
+let bucket: TokenBucket | null = null;
+
+function getBucket(limits: DialerLimits): TokenBucket | null {
+  if (limits.callsPerSecond <= 0) {
+    return null;
+  }
+  if (!bucket) {
+    bucket = new TokenBucket(limits.callsPerSecond, Math.max(limits.burst, 1));
+  }
+  return bucket;
+}
+
+/**
+ * Count calls currently holding a provider line. Records stuck in a live status
+ * longer than the timeout are ignored so a lost webhook cannot block the dialer forever.
+ */
+export async function countLiveCalls(userId?: string): Promise<number> {
+  const { liveCallTimeoutMinutes } = getDialerLimits();
+  const filter: Record<string, any> = { status: { $in: ACTIVE_CALL_STATUSES } };
+
+  if (liveCallTimeoutMinutes > 0) {
+    filter.lastAttemptAt = { $gte: new Date(Date.now() - liveCallTimeoutMinutes * 60 * 1000) };
+  }
+  if (userId) {
+    filter.userId = userId;
+  }
+
+  return BulkCallQueue.countDocuments(filter);
+}
+
+/**
+ * Wait for a calls-per-second token, then check the live-call caps and the
+ * user's hourly quota against the queue. Callers should stop dialing for now
+ * when the slot is refused; the scheduler picks the queue up again later.
+ */
+export async function acquireDialSlot(userId: string): Promise<DialSlot> {
+  const limits = getDialerLimits();
+
+  await getBucket(limits)?.take();
+
+  if (limits.maxLiveCalls > 0) {
+    const live = await countLiveCalls();
+    if (live >= limits.maxLiveCalls) {
+      return { allowed: false, reason: `provider limit of ${limits.maxLiveCalls} live calls reached` };
+    }
+  }
+
+  if (limits.maxLiveCallsPerUser > 0) {
+    const live = await countLiveCalls(userId);
+    if (live >= limits.maxLiveCallsPerUser) {
+      return { allowed: false, reason: `user limit of ${limits.maxLiveCallsPerUser} live calls reached` };
+    }
+  }
+
+  if (limits.maxCallsPerUserPerHour > 0) {
+    const dialedLastHour = await BulkCallQueue.countDocuments({
+      userId,
+      lastAttemptAt: { $gte: new Date(Date.now() - 60 * 60 * 1000) },
+    });
+    if (dialedLastHour >= limits.maxCallsPerUserPerHour) {
+      return { allowed: false, reason: `hourly quota of ${limits.maxCallsPerUserPerHour} calls reached` };
+    }
+  }
+
+  return { allowed: true };
+}
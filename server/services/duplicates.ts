@@ -0,0 +1,131 @@
+import BulkCallQueue from '../models/BulkCallQueue';
+import Contact from '../models/Contact';
+import type { ParsedContact } from '../utils/fileParser';
+import { contactFieldsFromRow } from './contacts';
+
+export const DUPLICATE_STRATEGIES = ['skip', 'update', 'insert'] as const;
+
+export type DuplicateStrategy = typeof DUPLICATE_STRATEGIES[number];
+
+export const DEFAULT_DUPLICATE_STRATEGY: DuplicateStrategy = 'skip';
+
+export interface DuplicateRow {
+  row: string;
+  name: string;
+  phone: string;
+  match: 'file' | 'existing'; // An earlier row of the same upload, or a contact already saved
+  matchedRow?: string; // The earlier row, for duplicates within the file
+  action: 'skipped' | 'updated' | 'inserted';
+}
+
+export interface DuplicateResolution {
+  contacts: ParsedContact[]; // Contacts to insert
+  updated: number; // Existing contacts updated from the file
+  duplicates: DuplicateRow[];
+}
+
+/**
+ * Validate a duplicate strategy from user input, falling back to the default when none is given
+ */
+export function parseDuplicateStrategy(input: any): DuplicateStrategy {
+  if (input === undefined || input === null || input === '') {
+    return DEFAULT_DUPLICATE_STRATEGY;
+  }
+  if (!DUPLICATE_STRATEGIES.includes(input)) {
+    throw new Error(`Duplicate strategy must be one of: ${DUPLICATE_STRATEGIES.join(', ')}`);
+  }
+  return input;
+}
+
+/**
+ * Fields copied onto the existing contact's queued calls by the "update" strategy.
+ * Columns left empty in the file keep their stored value.
+ */
+function queueRecordUpdate(contact: ParsedContact): Record<string, any> {
+  const update: Record<string, any> = {
+    name: contact.name,
+    rawPhone: contact.rawPhone,
+    phoneType: contact.phoneType,
+  };
+  if (contact.city) update.city = contact.city;
+  if (contact.email) update.email = contact.email;
+  if (contact.notes) update.notes = contact.notes;
+  Object.entries(contact.variables || {}).forEach(([variable, value]) => {
+    update[`metadata.${variable}`] = value;
+  });
+  return update;
+}
+
+/**
+ * Match a batch of parsed contacts on their normalised phone against rows seen earlier
+ * in the same file and the user's contacts directory, and apply the strategy. `seen` maps
+ * phones already read from the file to their row and is updated in place, so one map
+ * covers every chunk of an import.
+ */
+export async function resolveDuplicates(
+  userId: string,
+  contacts: ParsedContact[],
+  strategy: DuplicateStrategy,
+  seen: Map<string, string>
+): Promise<DuplicateResolution> {
+  const existing = contacts.length > 0
+    ? await Contact.distinct('phone', { userId, phone: { $in: contacts.map(c => c.phone) } })
+    : [];
+  const existingPhones = new Set<string>(existing);
+
+  const toInsert: ParsedContact[] = [];
+  const toUpdate: ParsedContact[] = [];
+  const duplicates: DuplicateRow[] = [];
+
+  contacts.forEach(contact => {
+    const report = { row: contact.row, name: contact.name, phone: contact.phone };
+
+    const earlierRow = seen.get(contact.phone);
+    if (earlierRow) {
+      const action = strategy === 'insert' ? 'inserted' : 'skipped';
+      duplicates.push({ ...report, match: 'file', matchedRow: earlierRow, action });
+      if (action === 'inserted') {
+        toInsert.push(contact);
+      }
+      return;
+    }
+    seen.set(contact.phone, contact.row);
+
+    if (!existingPhones.has(contact.phone)) {
+      toInsert.push(contact);
+      return;
+    }
+
+    if (strategy === 'skip') {
+      duplicates.push({ ...report, match: 'existing', action: 'skipped' });
+    } else if (strategy === 'update') {
+      duplicates.push({ ...report, match: 'existing', action: 'updated' });
+      toUpdate.push(contact);
+    } else {
+      duplicates.push({ ...report, match: 'existing', action: 'inserted' });
+      toInsert.push(contact);
+    }
+  });
+
+  if (toUpdate.length > 0) {
+    await Contact.bulkWrite(
+      toUpdate.map(contact => ({
+        updateOne: {
+          filter: { userId, phone: contact.phone },
+          update: { $set: contactFieldsFromRow(contact) },
+        },
+      }))
+    );
+    await BulkCallQueue.bulkWrite(
+      toUpdate.map(contact => ({
+        updateMany: {
+          // Calls already dialed keep the details they were made with
+          filter: { userId, phone: contact.phone, status: 'queued' },
+          update: { $set: queueRecordUpdate(contact) },
+        },
+      }))
+    );
+  }
+
+  return { contacts: toInsert, updated: toUpdate.length, duplicates };
+}
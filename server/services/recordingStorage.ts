@@ -0,0 +1,103 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+
+export interface StoredObject {
+  size: number;
+}
+
+export interface ByteRange {
+  start: number;
+  end: number; // Inclusive
+}
+
+/**
+ * Where archived recordings are kept. Keys are relative paths such as
+ * "<userId>/<callId>.mp3".
+ */
+export interface RecordingStorage {
+  name: string;
+  save(key: string, body: Readable): Promise<StoredObject>;
+  stat(key: string): Promise<StoredObject | null>;
+  createReadStream(key: string, range?: ByteRange): Readable;
+  remove(key: string): Promise<void>;
+}
+
+/**
+ * Keeps recordings on the local filesystem under RECORDING_STORAGE_DIR
+ * (defaults to ./storage/recordings)
+ */
+function createLocalStorage(): RecordingStorage {
+  // Read environment variables inside function after dotenv loads
+  const root = path.resolve(process.env.RECORDING_STORAGE_DIR || path.join(process.cwd(), 'storage', 'recordings'));
+
+  const resolveKey = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid recording key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    name: 'local',
+
+    async save(key, body) {
+      const filePath = resolveKey(key);
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+      // Write to a temporary file first so a failed download never leaves a partial recording
+      const tempPath = `${filePath}.part`;
+      try {
+        await pipeline(body, fs.createWriteStream(tempPath));
+        await fs.promises.rename(tempPath, filePath);
+      } catch (error) {
+        await fs.promises.rm(tempPath, { force: true });
+        throw error;
+      }
+
+      const stats = await fs.promises.stat(filePath);
+      return { size: stats.size };
+    },
+
+    async stat(key) {
+      try {
+        const stats = await fs.promises.stat(resolveKey(key));
+        return { size: stats.size };
+      } catch (error: any) {
+        if (error.code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    createReadStream(key, range) {
+      return fs.createReadStream(resolveKey(key), range ? { start: range.start, end: range.end } : undefined);
+    },
+
+    async remove(key) {
+      await fs.promises.rm(resolveKey(key), { force: true });
+    },
+  };
+}
+
+const storageFactories: Record<string, () => RecordingStorage> = {
+  local: createLocalStorage,
+};
+
+/**
+ * Resolve the recording storage backend selected by RECORDING_STORAGE (defaults to local)
+ */
+export function getRecordingStorage(): RecordingStorage {
+  // Read environment variables inside function after dotenv loads
+  const name = process.env.RECORDING_STORAGE?.trim().toLowerCase() || 'local';
+
+  const factory = storageFactories[name];
+  if (!factory) {
+    throw new Error(`Unknown RECORDING_STORAGE "${name}". Supported backends: ${Object.keys(storageFactories).join(', ')}`);
+  }
+
+  return factory();
+}
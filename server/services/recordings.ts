@@ -0,0 +1,72 @@
+import crypto from 'crypto';
+
+// How long a signed playback URL stays valid (in seconds)
+const DEFAULT_PLAYBACK_URL_TTL = 60 * 60; // 1 hour
+
+// Content types for the recording formats providers hand out
+const RECORDING_EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': '.mp3',
+  'audio/mp3': '.mp3',
+  'audio/wav': '.wav',
+  'audio/x-wav': '.wav',
+  'audio/ogg': '.ogg',
+  'audio/webm': '.webm',
+  'audio/mp4': '.m4a',
+};
+
+function getSigningSecret(): string {
+  // Read environment variables inside function after dotenv loads
+  const secret = process.env.RECORDING_URL_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('RECORDING_URL_SECRET (or JWT_SECRET) is not configured');
+  }
+  return secret;
+}
+
+function sign(callId: string, expires: number): string {
+  return crypto.createHmac('sha256', getSigningSecret()).update(`${callId}:${expires}`).digest('hex');
+}
+
+/**
+ * File extension for an archived recording, from the response content type or the source URL
+ */
+export function recordingExtension(contentType: string | undefined, sourceUrl: string): string {
+  const type = contentType?.split(';')[0].trim().toLowerCase();
+  if (type && RECORDING_EXTENSIONS[type]) {
+    return RECORDING_EXTENSIONS[type];
+  }
+
+  try {
+    const match = new URL(sourceUrl).pathname.match(/\.(mp3|wav|ogg|webm|m4a)$/i);
+    if (match) {
+      return `.${match[1].toLowerCase()}`;
+    }
+  } catch {
+    // Not a parseable URL; fall through to the default
+  }
+  return '.mp3';
+}
+
+/**
+ * Path to stream an archived recording without a login, valid for a limited time.
+ * Audio elements cannot send an Authorization header, so the signature stands in for it.
+ */
+export function signRecordingPath(callId: string): string {
+  const ttl = parseInt(process.env.RECORDING_URL_TTL_SECONDS as string) || DEFAULT_PLAYBACK_URL_TTL;
+  const expires = Math.floor(Date.now() / 1000) + ttl;
+  return `/api/recordings/${callId}?expires=${expires}&signature=${sign(callId, expires)}`;
+}
+
+/**
+ * Check a playback URL's signature and expiry
+ */
+export function isValidRecordingSignature(callId: string, expires: string, signature: string): boolean {
+  const expiresAt = parseInt(expires);
+  if (!expiresAt || expiresAt < Date.now() / 1000 || typeof signature !== 'string') {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(callId, expiresAt));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+}
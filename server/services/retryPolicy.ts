@@ -0,0 +1,140 @@
+import { IBulkCallQueue, CallStatus } from '../models/BulkCallQueue';
+import Campaign, { ICampaign } from '../models/Campaign';
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  backoffMultiplier: number;
+  busyDelayMinutes: number;
+  noAnswerDelayMinutes: number;
+  providerErrorDelayMinutes: number;
+  maxDelayMinutes: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  backoffMultiplier: 2,
+  busyDelayMinutes: 15,
+  noAnswerDelayMinutes: 60,
+  providerErrorDelayMinutes: 5,
+  maxDelayMinutes: 24 * 60,
+};
+
+// extractedData keys and values that mean the contact asked not to be called again
+const DO_NOT_CALL_KEYS = ['do_not_call', 'dnc', 'opt_out', 'optout', 'unsubscribe'];
+const DO_NOT_CALL_VALUES = ['do not call', 'do_not_call', 'dnc', 'opt out', 'opt-out', 'opted out', 'unsubscribe'];
+
+/**
+ * Whether the call's outcome says the contact must never be called again
+ */
+export function isDoNotCallOutcome(call: Pick<IBulkCallQueue, 'extractedData'>): boolean {
+  const data = call.extractedData;
+  if (!data || typeof data !== 'object') {
+    return false;
+  }
+
+  return Object.entries(data).some(([key, value]) => {
+    const normalizedKey = key.trim().toLowerCase();
+    if (DO_NOT_CALL_KEYS.includes(normalizedKey) && value && value !== 'false' && value !== 'no') {
+      return true;
+    }
+    return typeof value === 'string' && DO_NOT_CALL_VALUES.includes(value.trim().toLowerCase());
+  });
+}
+
+/**
+ * Merge a campaign's stored policy over the defaults
+ */
+export function resolveRetryPolicy(campaign?: ICampaign | null): RetryPolicy {
+  const stored = (campaign?.retryPolicy as Partial<RetryPolicy> | undefined) || {};
+  const policy = { ...DEFAULT_RETRY_POLICY };
+
+  (Object.keys(DEFAULT_RETRY_POLICY) as Array<keyof RetryPolicy>).forEach(key => {
+    if (typeof stored[key] === 'number') {
+      policy[key] = stored[key] as number;
+    }
+  });
+
+  return policy;
+}
+
+/**
+ * Validate user input into a partial retry policy. Throws with a readable message on bad input.
+ */
+export function parseRetryPolicy(input: any): Partial<RetryPolicy> {
+  if (!input || typeof input !== 'object') {
+    throw new Error('Retry policy must be an object');
+  }
+
+  const policy: Partial<RetryPolicy> = {};
+  for (const key of Object.keys(DEFAULT_RETRY_POLICY) as Array<keyof RetryPolicy>) {
+    if (input[key] === undefined) {
+      continue;
+    }
+
+    const value = Number(input[key]);
+    const min = key === 'backoffMultiplier' || key === 'maxAttempts' ? 1 : 0;
+    if (!Number.isFinite(value) || value < min) {
+      throw new Error(`Retry policy ${key} must be a number of at least ${min}`);
+    }
+    policy[key] = key === 'maxAttempts' ? Math.floor(value) : value;
+  }
+
+  return policy;
+}
+
+/**
+ * Delay before the next attempt for an outcome, growing exponentially with attempts made
+ */
+export function computeRetryDelay(policy: RetryPolicy, outcome: CallStatus, attempts: number): number {
+  const baseMinutes =
+    outcome === 'busy'
+      ? policy.busyDelayMinutes
+      : outcome === 'no_answer'
+      ? policy.noAnswerDelayMinutes
+      : policy.providerErrorDelayMinutes;
+
+  const minutes = Math.min(
+    baseMinutes * Math.pow(policy.backoffMultiplier, Math.max(attempts - 1, 0)),
+    policy.maxDelayMinutes
+  );
+
+  return minutes * 60 * 1000;
+}
+
+/**
+ * Whether a finished call may be attempted again under the policy
+ */
+export function canRetry(call: IBulkCallQueue, policy: RetryPolicy): boolean {
+  return (
+    ['failed', 'no_answer', 'busy'].includes(call.status) &&
+    call.callAttempts < policy.maxAttempts &&
+    !isDoNotCallOutcome(call)
+  );
+}
+
+async function loadCampaign(call: IBulkCallQueue): Promise<ICampaign | null> {
+  return call.campaignId ? Campaign.findById(call.campaignId) : null;
+}
+
+/**
+ * Requeue an unsuccessful call for a later attempt if its campaign's policy allows it,
+ * storing when it becomes due in nextAttemptAt. Does not save the record.
+ * Returns true when a retry was scheduled.
+ */
+export async function applyRetryPolicy(call: IBulkCallQueue, campaign?: ICampaign | null): Promise<boolean> {
+  const policy = resolveRetryPolicy(campaign === undefined ? await loadCampaign(call) : campaign);
+
+  if (!canRetry(call, policy)) {
+    return false;
+  }
+
+  const outcome = call.status;
+  const delayMs = computeRetryDelay(policy, outcome, call.callAttempts);
+
+  call.transitionTo('queued', `Automatic retry after ${outcome.replace('_', ' ')}`);
+  call.nextAttemptAt = new Date(Date.now() + delayMs);
+
+  console.log(`🔁 ${call.name} (${call.phone}) ${outcome}; retry ${call.callAttempts + 1}/${policy.maxAttempts} at ${call.nextAttemptAt.toISOString()}`);
+
+  return true;
+}
@@ -0,0 +1,184 @@
+import type { TelephonyProvider, OutboundCallOptions, OutboundCallResult, CallExecution } from './telephony';
+
+type SimulatedOutcome = 'completed' | 'no-answer' | 'busy' | 'failed';
+
+interface SimulatedCall {
+  id: string;
+  phone: string;
+  contactName: string;
+  userId: string;
+  metadata?: Record<string, any>;
+  agentId?: string;
+  outcome: SimulatedOutcome;
+  talkSeconds: number;
+  createdAt: number;
+}
+
+// Timeline of a simulated call (in milliseconds after dispatch)
+const RING_AFTER = 2000;
+const ANSWER_AFTER = 6000;
+const NO_ANSWER_AFTER = 20000;
+
+// Weighted outcome distribution used when SIMULATOR_OUTCOME is not set
+const OUTCOME_WEIGHTS: Array<[SimulatedOutcome, number]> = [
+  ['completed', 0.7],
+  ['no-answer', 0.15],
+  ['busy', 0.1],
+  ['failed', 0.05],
+];
+
+// Calls dispatched through the simulator, kept for the lifetime of the process
+const simulatedCalls = new Map<string, SimulatedCall>();
+
+function pickOutcome(): SimulatedOutcome {
+  const forced = process.env.SIMULATOR_OUTCOME as SimulatedOutcome | undefined;
+  if (forced && OUTCOME_WEIGHTS.some(([outcome]) => outcome === forced)) {
+    return forced;
+  }
+
+  let roll = Math.random();
+  for (const [outcome, weight] of OUTCOME_WEIGHTS) {
+    if (roll < weight) {
+      return outcome;
+    }
+    roll -= weight;
+  }
+  return 'completed';
+}
+
+function buildTranscript(call: SimulatedCall): string {
+  return [
+    `assistant: Hello ${call.contactName}, this is AssureAI calling about your insurance policy. Is this a good time to talk?`,
+    'user: Yes, go ahead.',
+    'assistant: Great. I wanted to check whether you would like a quote for renewing your coverage this year.',
+    'user: Sure, please send me the details.',
+    'assistant: I will share them shortly. Thank you for your time and have a great day!',
+  ].join('\n');
+}
+
+/**
+ * Trigger a simulated outbound call. Nothing leaves the machine; the call
+ * progresses through its lifecycle based on elapsed time.
+ */
+export async function triggerOutboundCall(
+  phone: string,
+  contactName: string,
+  userId: string,
+  additionalMetadata?: Record<string, any>,
+  options?: OutboundCallOptions
+): Promise<OutboundCallResult> {
+  const id = `sim-call-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+
+  simulatedCalls.set(id, {
+    id,
+    phone,
+    contactName,
+    userId,
+    metadata: additionalMetadata,
+    agentId: options?.agentId,
+    outcome: pickOutcome(),
+    talkSeconds: 30 + Math.floor(Math.random() * 90),
+    createdAt: Date.now(),
+  });
+
+  console.log(`🧪 Simulated call to ${phone} (${contactName}). Call ID: ${id}`);
+
+  return {
+    success: true,
+    callId: id,
+    message: 'Call initiated successfully (simulator)',
+  };
+}
+
+/**
+ * Get the current state of a simulated call
+ */
+export async function getCallStatus(callId: string): Promise<CallExecution> {
+  const call = simulatedCalls.get(callId);
+  if (!call) {
+    throw new Error(`Simulated execution ${callId} not found`);
+  }
+
+  const elapsed = Date.now() - call.createdAt;
+  const talkEndsAt = ANSWER_AFTER + call.talkSeconds * 1000;
+
+  const execution: CallExecution = {
+    id: call.id,
+    status: 'initiated',
+    conversation_time: 0,
+    telephony_data: {
+      to_number: call.phone,
+      provider: 'simulator',
+      agent_id: call.agentId,
+    },
+    created_at: new Date(call.createdAt).toISOString(),
+    updated_at: new Date().toISOString(),
+  };
+
+  if (elapsed < RING_AFTER) {
+    return execution;
+  }
+
+  if (call.outcome === 'failed') {
+    execution.status = 'failed';
+    execution.telephony_data!.hangup_reason = 'Simulated provider error';
+    return execution;
+  }
+
+  if (call.outcome === 'busy') {
+    execution.status = 'busy';
+    execution.telephony_data!.hangup_reason = 'User busy';
+    return execution;
+  }
+
+  if (elapsed < ANSWER_AFTER) {
+    execution.status = 'ringing';
+    return execution;
+  }
+
+  if (call.outcome === 'no-answer') {
+    execution.status = elapsed < NO_ANSWER_AFTER ? 'ringing' : 'no-answer';
+    if (execution.status === 'no-answer') {
+      execution.telephony_data!.hangup_reason = 'No answer';
+    }
+    return execution;
+  }
+
+  if (elapsed < talkEndsAt) {
+    execution.status = 'in-progress';
+    execution.conversation_time = Math.floor((elapsed - ANSWER_AFTER) / 1000);
+    return execution;
+  }
+
+  execution.status = 'completed';
+  execution.conversation_time = call.talkSeconds;
+  execution.transcript = buildTranscript(call);
+  execution.telephony_data = {
+    ...execution.telephony_data,
+    hangup_by: 'Assistant',
+    hangup_reason: 'Call completed',
+  };
+  execution.extracted_data = {
+    interested: true,
+    callback_requested: false,
+  };
+  execution.cost_breakdown = {
+    llm: 0.5,
+    network: 0,
+    platform: 1,
+    synthesizer: 0.8,
+    transcriber: 0.4,
+  };
+
+  return execution;
+}
+
+/**
+ * Fully local implementation of the telephony provider interface, used for
+ * offline development and for exercising the bulk-call pipeline end to end
+ */
+export const simulatorProvider: TelephonyProvider = {
+  name: 'simulator',
+  triggerOutboundCall,
+  getCallStatus,
+};
@@ -0,0 +1,165 @@
+import { Types } from 'mongoose';
+import BulkCallQueue, { ACTIVE_CALL_STATUSES } from '../models/BulkCallQueue';
+import Campaign, { ICampaign } from '../models/Campaign';
+
+// Costs are kept in the provider's units (Bolna reports cents)
+
+export const SPEND_GROUPS = ['user', 'campaign', 'day'] as const;
+
+export type SpendGroup = typeof SPEND_GROUPS[number];
+
+export interface SpendRow {
+  key: string; // User ID, campaign ID or YYYY-MM-DD (UTC)
+  calls: number; // Calls with a reported cost
+  totalCost: number;
+}
+
+export interface BudgetCheck {
+  allowed: boolean;
+  spent: number;
+  projected: number; // Spend once live calls and the next call are paid for
+  reason?: string;
+}
+
+const SPEND_GROUP_KEYS: Record<SpendGroup, any> = {
+  user: '$userId',
+  campaign: '$campaignId',
+  day: { $dateToString: { format: '%Y-%m-%d', date: { $ifNull: ['$lastAttemptAt', '$createdAt'] } } },
+};
+
+function readCostEstimate(): number {
+  // Read environment variable inside function after dotenv loads
+  const value = Number(process.env.CALL_COST_ESTIMATE);
+  return Number.isFinite(value) && value >= 0 ? value : 0;
+}
+
+/**
+ * Total cost of the matching calls, grouped by user, campaign or day
+ */
+export async function getSpend(match: Record<string, any>, groupBy: SpendGroup): Promise<SpendRow[]> {
+  const rows = await BulkCallQueue.aggregate([
+    { $match: { ...match, totalCost: { $ne: null } } },
+    { $group: { _id: SPEND_GROUP_KEYS[groupBy], calls: { $sum: 1 }, totalCost: { $sum: '$totalCost' } } },
+    { $sort: groupBy === 'day' ? { _id: 1 } : { totalCost: -1 } },
+  ]);
+
+  return rows.map(row => ({
+    key: row._id ? row._id.toString() : 'none',
+    calls: row.calls,
+    totalCost: row.totalCost,
+  }));
+}
+
+/**
+ * Spend so far per campaign
+ */
+export async function getCampaignSpend(campaignIds: Types.ObjectId[]): Promise<Map<string, number>> {
+  if (campaignIds.length === 0) {
+    return new Map();
+  }
+  const rows = await getSpend({ campaignId: { $in: campaignIds } }, 'campaign');
+  return new Map(rows.map(row => [row.key, row.totalCost]));
+}
+
+/**
+ * Expected cost of one more call: the campaign's average so far, then the owner's,
+ * then CALL_COST_ESTIMATE
+ */
+export async function estimateCallCost(campaign: ICampaign): Promise<number> {
+  for (const match of [{ campaignId: campaign._id }, { userId: campaign.ownerId }]) {
+    const [average] = await BulkCallQueue.aggregate([
+      { $match: { ...match, totalCost: { $ne: null } } },
+      { $group: { _id: null, cost: { $avg: '$totalCost' } } },
+    ]);
+    if (average) {
+      return average.cost;
+    }
+  }
+  return readCostEstimate();
+}
+
+/**
+ * Whether another call may be dialed within the campaign's budget cap. Live calls
+ * that have not reported a cost yet are counted at the estimated cost per call.
+ */
+export async function checkCampaignBudget(campaign: ICampaign): Promise<BudgetCheck> {
+  const cap = campaign.budgetCap;
+  if (cap === undefined || cap === null) {
+    return { allowed: true, spent: 0, projected: 0 };
+  }
+
+  const [spend, liveCalls, estimate] = await Promise.all([
+    getCampaignSpend([campaign._id]),
+    BulkCallQueue.countDocuments({
+      campaignId: campaign._id,
+      status: { $in: ACTIVE_CALL_STATUSES },
+      totalCost: null,
+    }),
+    estimateCallCost(campaign),
+  ]);
+
+  const spent = spend.get(campaign._id.toString()) || 0;
+  const projected = spent + (liveCalls + 1) * estimate;
+
+  if (spent >= cap || projected > cap) {
+    return {
+      allowed: false,
+      spent,
+      projected,
+      reason: `budget cap of ${cap} reached (spent ${spent.toFixed(2)}, projected ${projected.toFixed(2)})`,
+    };
+  }
+
+  return { allowed: true, spent, projected };
+}
+
+/**
+ * IDs of a user's active campaigns whose next call would go over their budget cap
+ */
+export async function getOverBudgetCampaignIds(userId: string): Promise<Types.ObjectId[]> {
+  const capped = await Campaign.find({ ownerId: userId, status: 'active', budgetCap: { $ne: null } });
+
+  const overBudget: Types.ObjectId[] = [];
+  for (const campaign of capped) {
+    if (!(await checkCampaignBudget(campaign)).allowed) {
+      overBudget.push(campaign._id);
+    }
+  }
+  return overBudget;
+}
+
+/**
+ * Validate spend report query parameters: groupBy plus optional campaignId and
+ * from/to dates (a bare `to` date covers that whole day). Throws with a readable
+ * message on bad input.
+ */
+export function parseSpendQuery(query: Record<string, any>): { groupBy: SpendGroup; match: Record<string, any> } {
+  const groupBy = ((query.groupBy as string) || 'day') as SpendGroup;
+  if (!SPEND_GROUPS.includes(groupBy)) {
+    throw new Error(`groupBy must be one of: ${SPEND_GROUPS.join(', ')}`);
+  }
+
+  const match: Record<string, any> = {};
+
+  if (query.campaignId) {
+    if (!Types.ObjectId.isValid(query.campaignId)) {
+      throw new Error('Invalid campaign ID');
+    }
+    match.campaignId = new Types.ObjectId(query.campaignId as string);
+  }
+
+  const from = query.from ? new Date(query.from) : undefined;
+  const to = query.to
+    ? new Date(/^\d{4}-\d{2}-\d{2}$/.test(query.to) ? `${query.to}T23:59:59.999Z` : query.to)
+    : undefined;
+  if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+    throw new Error('from and to must be dates, e.g. 2026-01-31');
+  }
+  if (from || to) {
+    match.lastAttemptAt = {};
+    if (from) match.lastAttemptAt.$gte = from;
+    if (to) match.lastAttemptAt.$lte = to;
+  }
+
+  return { groupBy, match };
+}
@@ -0,0 +1,60 @@
+import SuppressionEntry, { SuppressionSource } from '../models/SuppressionEntry';
+import { IBulkCallQueue } from '../models/BulkCallQueue';
+import { formatPhoneNumber } from '../utils/phone';
+import { isDoNotCallOutcome } from './retryPolicy';
+
+/**
+ * Key a number is stored and matched under (E.164), so "98765 43210" and "+919876543210" match.
+ * `defaultRegion` applies to numbers written without a country code.
+ */
+export function suppressionKey(phone: string, defaultRegion?: string): string {
+  return formatPhoneNumber(phone.trim(), defaultRegion);
+}
+
+/**
+ * Which of the given numbers are on the user's suppression list, as suppression keys
+ */
+export async function getSuppressedPhones(userId: string, phones: string[]): Promise<Set<string>> {
+  const keys = Array.from(new Set(phones.map(phone => suppressionKey(phone))));
+  const entries = await SuppressionEntry.find({ userId, phone: { $in: keys } }, { phone: 1 });
+  return new Set(entries.map(entry => entry.phone));
+}
+
+/**
+ * Whether a single number is on the user's suppression list
+ */
+export async function isSuppressed(userId: string, phone: string): Promise<boolean> {
+  return !!(await SuppressionEntry.exists({ userId, phone: suppressionKey(phone) }));
+}
+
+/**
+ * Add a number to the user's suppression list. Existing entries are kept as they are.
+ * Returns true when a new entry was created.
+ */
+export async function addSuppression(
+  userId: string,
+  phone: string,
+  source: SuppressionSource,
+  reason?: string,
+  bulkCallId?: IBulkCallQueue['_id']
+): Promise<boolean> {
+  const result = await SuppressionEntry.updateOne(
+    { userId, phone: suppressionKey(phone) },
+    { $setOnInsert: { source, reason, bulkCallId } },
+    { upsert: true }
+  );
+  return result.upsertedCount > 0;
+}
+
+/**
+ * Suppress the call's number when its extracted data says the contact opted out
+ */
+export async function suppressIfOptedOut(call: IBulkCallQueue): Promise<void> {
+  if (!isDoNotCallOutcome(call)) {
+    return;
+  }
+
+  if (await addSuppression(call.userId, call.phone, 'opt_out', 'Contact opted out during call', call._id)) {
+    console.log(`🚫 ${call.name} (${call.phone}) opted out; added to do-not-call list`);
+  }
+}
@@ -0,0 +1,71 @@
+import { bolnaProvider } from './bolna';
+import { simulatorProvider } from './simulator';
+
+export interface OutboundCallOptions {
+  // Provider-side agent to run the call with, overriding the configured default
+  agentId?: string;
+}
+
+export interface OutboundCallResult {
+  success: boolean;
+  callId?: string;
+  message?: string;
+  error?: string;
+}
+
+/**
+ * Execution details as returned by a provider. Shaped after Bolna's
+ * `/executions/:id` payload so routes can consume any provider the same way.
+ */
+export interface CallExecution {
+  id?: string;
+  status?: string;
+  conversation_time?: number;
+  transcript?: string;
+  telephony_data?: {
+    recording_url?: string;
+    hangup_by?: string;
+    hangup_reason?: string;
+    [key: string]: any;
+  };
+  extracted_data?: Record<string, any>;
+  cost_breakdown?: Record<string, number>;
+  total_cost?: number;
+  created_at?: string;
+  updated_at?: string;
+  [key: string]: any;
+}
+
+export interface TelephonyProvider {
+  name: string;
+  triggerOutboundCall(
+    phone: string,
+    contactName: string,
+    userId: string,
+    additionalMetadata?: Record<string, any>,
+    options?: OutboundCallOptions
+  ): Promise<OutboundCallResult>;
+  getCallStatus(callId: string): Promise<CallExecution>;
+}
+
+const providers: Record<string, TelephonyProvider> = {
+  bolna: bolnaProvider,
+  simulator: simulatorProvider,
+};
+
+/**
+ * Resolve the telephony provider selected by TELEPHONY_PROVIDER (defaults to bolna).
+ * The legacy MOCK_BOLNA_CALLS=true flag is still honoured and maps to the simulator.
+ */
+export function getTelephonyProvider(): TelephonyProvider {
+  // Read environment variables inside function after dotenv loads
+  const configured = process.env.TELEPHONY_PROVIDER?.trim().toLowerCase();
+  const name = configured || (process.env.MOCK_BOLNA_CALLS === 'true' ? 'simulator' : 'bolna');
+
+  const provider = providers[name];
+  if (!provider) {
+    throw new Error(`Unknown TELEPHONY_PROVIDER "${name}". Supported providers: ${Object.keys(providers).join(', ')}`);
+  }
+
+  return provider;
+}
@@ -2,14 +2,32 @@ import fs from 'fs';
 import path from 'path';
 import csvParser from 'csv-parser';
 import xlsx from 'xlsx';
-import { validatePhoneNumber } from '../services/bolna';
+import { normalizePhone, PhoneType } from './phone';
+import { toVariableName } from './variables';
+
+export const CONTACT_FIELDS = ['name', 'phone', 'city', 'email', 'notes'] as const;
+
+export type ContactField = typeof CONTACT_FIELDS[number];
+
+/**
+ * Which file column feeds each contact field, and which columns become custom
+ * variables (variable name -> column header)
+ */
+export interface ColumnMapping {
+  fields: Partial<Record<ContactField, string>>;
+  variables: Record<string, string>;
+}
 
 export interface ParsedContact {
+  row: string; // Where the contact came from, e.g. "Row 4" or "Leads row 4"
   name: string;
-  phone: string;
+  phone: string; // E.164
+  rawPhone: string;
+  phoneType: PhoneType;
   city?: string;
   email?: string;
   notes?: string;
+  variables?: Record<string, string>;
 }
 
 export interface ParseResult {
@@ -20,196 +38,462 @@ export interface ParseResult {
   validRows: number;
 }
 
+export interface ImportOptions {
+  mapping?: ColumnMapping; // Guessed from each sheet's headers when omitted
+  sheets?: string[]; // Excel sheets to import, defaults to the first sheet
+  defaultRegion?: string; // Region for numbers without a country code
+  chunkSize?: number;
+}
+
+export interface ImportChunk {
+  contacts: ParsedContact[];
+  errors: string[];
+  processedRows: number;
+  progress: number; // 0-100
+}
+
+export interface ImportResult {
+  success: boolean;
+  errors: string[]; // Errors that stopped the import; row errors are reported per chunk
+  totalRows: number;
+  validRows: number;
+}
+
+export interface FilePreview {
+  sheets: string[]; // Empty for CSV files
+  sheet?: string;
+  headers: string[];
+  sampleRows: Record<string, string>[];
+  totalRows: number;
+  suggestedMapping: ColumnMapping;
+}
+
+// Header spellings recognised when no mapping is given, compared case-insensitively
+const HEADER_ALIASES: Record<ContactField, string[]> = {
+  name: ['name', 'contactname', 'contact name', 'fullname', 'full name'],
+  phone: ['phone', 'phonenumber', 'phone number', 'mobile', 'contact'],
+  city: ['city'],
+  email: ['email'],
+  notes: ['notes', 'description'],
+};
+
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
 /**
- * Parse CSV file and extract contacts
+ * Guess a mapping from the file's headers using the common spellings. Every
+ * other column is kept as a custom variable.
  */
-export async function parseCSV(filePath: string): Promise<ParseResult> {
+export function detectColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = { fields: {}, variables: {} };
+
+  CONTACT_FIELDS.forEach(field => {
+    const header = headers.find(h => HEADER_ALIASES[field].includes(h.trim().toLowerCase()));
+    if (header) {
+      mapping.fields[field] = header;
+    }
+  });
+
+  const mapped = Object.values(mapping.fields);
+  headers
+    .filter(header => header.trim() && !mapped.includes(header))
+    .forEach(header => {
+      const base = toVariableName(header);
+      if (!VARIABLE_NAME_PATTERN.test(base)) {
+        return;
+      }
+      let variable = base;
+      for (let n = 2; mapping.variables[variable]; n++) {
+        variable = `${base}_${n}`;
+      }
+      mapping.variables[variable] = header;
+    });
+
+  return mapping;
+}
+
+/**
+ * Validate user input (an object or its JSON string) into a column mapping.
+ * Throws with a readable message on bad input.
+ */
+export function parseColumnMapping(input: any): ColumnMapping {
+  let value = input;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      throw new Error('Column mapping must be valid JSON');
+    }
+  }
+
+  if (!value || typeof value !== 'object' || !value.fields || typeof value.fields !== 'object') {
+    throw new Error('Column mapping must be an object with fields and variables');
+  }
+
+  const mapping: ColumnMapping = { fields: {}, variables: {} };
+
+  for (const [field, header] of Object.entries(value.fields)) {
+    if (!CONTACT_FIELDS.includes(field as ContactField)) {
+      throw new Error(`Unknown contact field "${field}". Supported fields: ${CONTACT_FIELDS.join(', ')}`);
+    }
+    if (header === undefined || header === null || header === '') {
+      continue;
+    }
+    if (typeof header !== 'string') {
+      throw new Error(`Column for ${field} must be a header name`);
+    }
+    mapping.fields[field as ContactField] = header;
+  }
+
+  if (!mapping.fields.name || !mapping.fields.phone) {
+    throw new Error('Column mapping must include the name and phone columns');
+  }
+
+  for (const [variable, header] of Object.entries(value.variables || {})) {
+    if (!VARIABLE_NAME_PATTERN.test(variable)) {
+      throw new Error(`Variable name "${variable}" may only contain letters, digits and underscores`);
+    }
+    if (typeof header !== 'string' || !header) {
+      throw new Error(`Column for variable ${variable} must be a header name`);
+    }
+    mapping.variables[variable] = header;
+  }
+
+  return mapping;
+}
+
+/**
+ * Mapped headers that are not present in the file
+ */
+function findMissingColumns(mapping: ColumnMapping, headers: string[]): string[] {
+  const mapped = [...Object.values(mapping.fields), ...Object.values(mapping.variables)] as string[];
+  return Array.from(new Set(mapped.filter(header => !headers.includes(header))));
+}
+
+function cellValue(row: Record<string, any>, header?: string): string {
+  if (!header || row[header] === undefined || row[header] === null) {
+    return '';
+  }
+  return row[header].toString().trim();
+}
+
+/**
+ * Turn one file row into a contact using the mapping. Returns an error message for invalid rows.
+ */
+function mapRow(
+  row: Record<string, any>,
+  mapping: ColumnMapping,
+  rowNumber: number,
+  defaultRegion?: string,
+  sheetName?: string
+): ParsedContact | string {
+  const label = sheetName ? `${sheetName} row ${rowNumber}` : `Row ${rowNumber}`;
+  const name = cellValue(row, mapping.fields.name);
+  const phone = cellValue(row, mapping.fields.phone);
+
+  // Validate required fields
+  if (!name) {
+    return `${label}: Missing name`;
+  }
+
+  if (!phone) {
+    return `${label}: Missing phone number`;
+  }
+
+  // Validate against the numbering plan and normalise to E.164
+  const normalized = normalizePhone(phone, defaultRegion);
+  if (!normalized.valid) {
+    return `${label}: ${normalized.error}`;
+  }
+
+  const variables: Record<string, string> = {};
+  Object.entries(mapping.variables).forEach(([variable, header]) => {
+    const value = cellValue(row, header);
+    if (value) {
+      variables[variable] = value;
+    }
+  });
+
+  return {
+    row: label,
+    name,
+    phone: normalized.e164,
+    rawPhone: phone,
+    phoneType: normalized.type,
+    city: cellValue(row, mapping.fields.city) || undefined,
+    email: cellValue(row, mapping.fields.email) || undefined,
+    notes: cellValue(row, mapping.fields.notes) || undefined,
+    variables: Object.keys(variables).length > 0 ? variables : undefined,
+  };
+}
+
+const DEFAULT_CHUNK_SIZE = 1000;
+
+/**
+ * Stream a CSV file, handing contacts to `onChunk` in batches. The stream is paused
+ * while a chunk is being handled, so memory stays flat however large the file is.
+ */
+function streamCSV(
+  filePath: string,
+  options: ImportOptions,
+  onChunk: (chunk: ImportChunk) => Promise<void>
+): Promise<ImportResult> {
   return new Promise((resolve) => {
-    const contacts: ParsedContact[] = [];
-    const errors: string[] = [];
+    const chunkSize = options.chunkSize || DEFAULT_CHUNK_SIZE;
+    const fileSize = fs.statSync(filePath).size || 1;
+    let mapping: ColumnMapping = options.mapping || { fields: {}, variables: {} };
+    let contacts: ParsedContact[] = [];
+    let errors: string[] = [];
     let totalRows = 0;
     let validRows = 0;
+    let bytesRead = 0;
+    let settled = false;
 
-    fs.createReadStream(filePath)
-      .pipe(csvParser())
-      .on('data', (row: any) => {
-        totalRows++;
-        
-        try {
-          // Try different possible column names (case-insensitive)
-          const name = row.name || row.Name || row.NAME || 
-                       row.contactName || row['Contact Name'] || 
-                       row.fullName || row['Full Name'] || '';
-          
-          const phone = row.phone || row.Phone || row.PHONE || 
-                        row.phoneNumber || row['Phone Number'] || 
-                        row.mobile || row.Mobile || 
-                        row.contact || row.Contact || '';
-          
-          const city = row.city || row.City || row.CITY || '';
-          const email = row.email || row.Email || row.EMAIL || '';
-          const notes = row.notes || row.Notes || row.NOTES || 
-                       row.description || row.Description || '';
-
-          // Validate required fields
-          if (!name || !name.trim()) {
-            errors.push(`Row ${totalRows}: Missing name`);
-            return;
-          }
+    const finish = (result: ImportResult) => {
+      if (!settled) {
+        settled = true;
+        resolve(result);
+      }
+    };
 
-          if (!phone || !phone.trim()) {
-            errors.push(`Row ${totalRows}: Missing phone number`);
-            return;
-          }
+    const fail = (message: string) => {
+      fileStream.destroy();
+      finish({ success: false, errors: [message], totalRows, validRows });
+    };
 
-          // Validate phone format
-          if (!validatePhoneNumber(phone.trim())) {
-            errors.push(`Row ${totalRows}: Invalid phone number format: ${phone}`);
-            return;
-          }
+    const flush = (progress: number) => {
+      const chunk = { contacts, errors, processedRows: totalRows, progress };
+      contacts = [];
+      errors = [];
+      return onChunk(chunk);
+    };
+
+    const fileStream = fs.createReadStream(filePath);
+    fileStream.on('data', (data: string | Buffer) => {
+      bytesRead += data.length;
+    });
+
+    const csvStream = fileStream.pipe(csvParser());
 
-          contacts.push({
-            name: name.trim(),
-            phone: phone.trim(),
-            city: city?.trim() || undefined,
-            email: email?.trim() || undefined,
-            notes: notes?.trim() || undefined,
+    csvStream
+      .on('headers', (headers: string[]) => {
+        if (!options.mapping) {
+          mapping = detectColumnMapping(headers);
+          return;
+        }
+
+        const missing = findMissingColumns(options.mapping, headers);
+        if (missing.length > 0) {
+          fileStream.destroy();
+          finish({
+            success: false,
+            errors: missing.map(header => `Column "${header}" not found in file`),
+            totalRows: 0,
+            validRows: 0,
           });
+        }
+      })
+      .on('data', (row: any) => {
+        totalRows++;
 
-          validRows++;
+        try {
+          const result = mapRow(row, mapping, totalRows, options.defaultRegion);
+          if (typeof result === 'string') {
+            errors.push(result);
+          } else {
+            contacts.push(result);
+            validRows++;
+          }
         } catch (error: any) {
           errors.push(`Row ${totalRows}: ${error.message}`);
         }
+
+        if (contacts.length + errors.length >= chunkSize) {
+          csvStream.pause();
+          flush(Math.min(99, Math.floor((bytesRead / fileSize) * 100)))
+            .then(() => csvStream.resume())
+            .catch((error: any) => fail(`Import failed at row ${totalRows}: ${error.message}`));
+        }
       })
       .on('end', () => {
-        console.log(`CSV parsing complete: ${validRows}/${totalRows} valid contacts`);
-        resolve({
-          success: true,
-          contacts,
-          errors,
-          totalRows,
-          validRows,
-        });
+        flush(100)
+          .then(() => {
+            console.log(`CSV parsing complete: ${validRows}/${totalRows} valid contacts`);
+            finish({ success: true, errors: [], totalRows, validRows });
+          })
+          .catch((error: any) => fail(`Import failed at row ${totalRows}: ${error.message}`));
       })
       .on('error', (error: Error) => {
         console.error('CSV parsing error:', error);
-        resolve({
-          success: false,
-          contacts: [],
-          errors: [`Failed to parse CSV: ${error.message}`],
-          totalRows: 0,
-          validRows: 0,
-        });
+        fail(`Failed to parse CSV: ${error.message}`);
       });
   });
 }
 
 /**
- * Parse Excel file (XLSX, XLS) and extract contacts
+ * Names of the sheets in a workbook, without loading their contents
+ */
+export function listSheets(filePath: string): string[] {
+  return xlsx.readFile(filePath, { bookSheets: true }).SheetNames;
+}
+
+/**
+ * Load one sheet of a workbook and read its header row. Only that sheet is parsed, and
+ * with `maxRows` only its first rows (the header included).
+ */
+function readSheet(filePath: string, sheetName: string, maxRows?: number): { worksheet: xlsx.WorkSheet; headers: string[] } {
+  const workbook = xlsx.readFile(filePath, { sheets: sheetName, dense: true, sheetRows: maxRows });
+  const worksheet = workbook.Sheets[sheetName];
+  if (!worksheet) {
+    throw new Error(`Sheet "${sheetName}" not found in file`);
+  }
+
+  const range = xlsx.utils.decode_range(worksheet['!ref'] || 'A1');
+  const [headerRow = []] = xlsx.utils.sheet_to_json<any[]>(worksheet, {
+    header: 1,
+    range: { s: range.s, e: { r: range.s.r, c: range.e.c } },
+  });
+  return {
+    worksheet,
+    headers: headerRow.map((header: any) => String(header ?? '')),
+  };
+}
+
+interface SheetRowWindow {
+  rows: Array<{ row: Record<string, any>; rowNumber: number }>; // rowNumber as shown in Excel
+  progress: number; // Share of the sheet read so far, 0-1
+}
+
+/**
+ * Convert the `index`th window of a sheet's data rows to objects, so a large sheet
+ * never exists as one array of row objects. Blank rows are skipped. Returns null
+ * past the last row.
  */
-export async function parseExcel(filePath: string): Promise<ParseResult> {
+function readSheetWindow(worksheet: xlsx.WorkSheet, headers: string[], index: number, windowSize: number): SheetRowWindow | null {
+  const range = xlsx.utils.decode_range(worksheet['!ref'] || 'A1');
+  const start = range.s.r + 1 + index * windowSize;
+  if (start > range.e.r) {
+    return null;
+  }
+
+  const end = Math.min(start + windowSize - 1, range.e.r);
+  const rows = xlsx.utils.sheet_to_json<Record<string, any>>(worksheet, {
+    header: headers,
+    range: { s: { r: start, c: range.s.c }, e: { r: end, c: range.e.c } },
+  });
+
+  return {
+    // sheet_to_json tags each row with its 0-based sheet row
+    rows: rows.map(row => ({ row, rowNumber: (row as any).__rowNum__ + 1 })),
+    progress: (end - range.s.r) / (range.e.r - range.s.r),
+  };
+}
+
+/**
+ * Import the chosen sheets of an Excel file (XLSX, XLS) one at a time, handing
+ * contacts to `onChunk` in batches
+ */
+async function streamExcel(
+  filePath: string,
+  options: ImportOptions,
+  onChunk: (chunk: ImportChunk) => Promise<void>
+): Promise<ImportResult> {
+  const chunkSize = options.chunkSize || DEFAULT_CHUNK_SIZE;
+  let totalRows = 0;
+  let validRows = 0;
+
   try {
-    const workbook = xlsx.readFile(filePath);
-    const sheetName = workbook.SheetNames[0]; // Use first sheet
-    const worksheet = workbook.Sheets[sheetName];
-    
-    // Convert to JSON
-    const rows: any[] = xlsx.utils.sheet_to_json(worksheet);
-    
-    const contacts: ParsedContact[] = [];
-    const errors: string[] = [];
-    let totalRows = rows.length;
-    let validRows = 0;
+    const available = listSheets(filePath);
+    const sheets = options.sheets && options.sheets.length > 0 ? options.sheets : available.slice(0, 1);
 
-    rows.forEach((row, index) => {
-      const rowNumber = index + 2; // Excel rows start at 1, +1 for header
-      
-      try {
-        // Try different possible column names (case-insensitive)
-        const name = row.name || row.Name || row.NAME || 
-                     row.contactName || row['Contact Name'] || 
-                     row.fullName || row['Full Name'] || '';
-        
-        const phone = row.phone || row.Phone || row.PHONE || 
-                      row.phoneNumber || row['Phone Number'] || 
-                      row.mobile || row.Mobile || 
-                      row.contact || row.Contact || '';
-        
-        const city = row.city || row.City || row.CITY || '';
-        const email = row.email || row.Email || row.EMAIL || '';
-        const notes = row.notes || row.Notes || row.NOTES || 
-                     row.description || row.Description || '';
-
-        // Validate required fields
-        if (!name || !name.toString().trim()) {
-          errors.push(`Row ${rowNumber}: Missing name`);
-          return;
-        }
+    const unknown = sheets.filter(sheet => !available.includes(sheet));
+    if (unknown.length > 0) {
+      return {
+        success: false,
+        errors: unknown.map(sheet => `Sheet "${sheet}" not found in file`),
+        totalRows: 0,
+        validRows: 0,
+      };
+    }
 
-        if (!phone || !phone.toString().trim()) {
-          errors.push(`Row ${rowNumber}: Missing phone number`);
-          return;
-        }
+    for (let sheetIndex = 0; sheetIndex < sheets.length; sheetIndex++) {
+      const sheetName = sheets[sheetIndex];
+      const { worksheet, headers } = readSheet(filePath, sheetName);
 
-        const phoneStr = phone.toString().trim();
+      const mapping = options.mapping || detectColumnMapping(headers);
+      const missing = findMissingColumns(mapping, headers);
+      if (missing.length > 0) {
+        return {
+          success: false,
+          errors: missing.map(header => `Column "${header}" not found in sheet "${sheetName}"`),
+          totalRows,
+          validRows,
+        };
+      }
 
-        // Validate phone format
-        if (!validatePhoneNumber(phoneStr)) {
-          errors.push(`Row ${rowNumber}: Invalid phone number format: ${phoneStr}`);
-          return;
-        }
+      let sheetWindow: SheetRowWindow | null;
+      for (let index = 0; (sheetWindow = readSheetWindow(worksheet, headers, index, chunkSize)); index++) {
+        const { rows, progress } = sheetWindow;
+        const contacts: ParsedContact[] = [];
+        const errors: string[] = [];
 
-        contacts.push({
-          name: name.toString().trim(),
-          phone: phoneStr,
-          city: city?.toString().trim() || undefined,
-          email: email?.toString().trim() || undefined,
-          notes: notes?.toString().trim() || undefined,
+        rows.forEach(({ row, rowNumber }) => {
+          try {
+            const result = mapRow(row, mapping, rowNumber, options.defaultRegion, sheets.length > 1 ? sheetName : undefined);
+            if (typeof result === 'string') {
+              errors.push(result);
+            } else {
+              contacts.push(result);
+              validRows++;
+            }
+          } catch (error: any) {
+            errors.push(`Row ${rowNumber}: ${error.message}`);
+          }
         });
 
-        validRows++;
-      } catch (error: any) {
-        errors.push(`Row ${rowNumber}: ${error.message}`);
+        totalRows += rows.length;
+
+        await onChunk({
+          contacts,
+          errors,
+          processedRows: totalRows,
+          progress: Math.floor(((sheetIndex + progress) / sheets.length) * 100),
+        });
       }
-    });
+    }
 
     console.log(`Excel parsing complete: ${validRows}/${totalRows} valid contacts`);
 
-    return {
-      success: true,
-      contacts,
-      errors,
-      totalRows,
-      validRows,
-    };
+    return { success: true, errors: [], totalRows, validRows };
   } catch (error: any) {
     console.error('Excel parsing error:', error);
     return {
       success: false,
-      contacts: [],
       errors: [`Failed to parse Excel: ${error.message}`],
-      totalRows: 0,
-      validRows: 0,
+      totalRows,
+      validRows,
     };
   }
 }
 
 /**
- * Parse file based on extension
+ * Import a contact file chunk by chunk, based on its extension
  */
-export async function parseContactFile(filePath: string): Promise<ParseResult> {
+export async function streamContactFile(
+  filePath: string,
+  options: ImportOptions,
+  onChunk: (chunk: ImportChunk) => Promise<void>
+): Promise<ImportResult> {
   const ext = path.extname(filePath).toLowerCase();
-  
+
   console.log(`📄 Parsing file: ${filePath} (${ext})`);
 
   if (ext === '.csv') {
-    return await parseCSV(filePath);
+    return await streamCSV(filePath, options, onChunk);
   } else if (ext === '.xlsx' || ext === '.xls') {
-    return await parseExcel(filePath);
+    return await streamExcel(filePath, options, onChunk);
   } else {
     return {
       success: false,
-      contacts: [],
       errors: [`Unsupported file format: ${ext}. Please use CSV, XLSX, or XLS.`],
       totalRows: 0,
       validRows: 0,
@@ -218,20 +502,140 @@ export async function parseContactFile(filePath: string): Promise<ParseResult> {
 }
 
 /**
- * Check for duplicate contacts in database
+ * Parse a whole contact file into memory. Meant for small files; uploads use streamContactFile.
  */
-export function findDuplicates(
-  newContacts: ParsedContact[],
-  existingContacts: { phone: string }[]
-): string[] {
-  const existingPhones = new Set(existingContacts.map(c => c.phone));
-  const duplicates: string[] = [];
-
-  newContacts.forEach(contact => {
-    if (existingPhones.has(contact.phone)) {
-      duplicates.push(contact.phone);
-    }
+export async function parseContactFile(filePath: string, options: ImportOptions = {}): Promise<ParseResult> {
+  const contacts: ParsedContact[] = [];
+  const errors: string[] = [];
+
+  const result = await streamContactFile(filePath, options, async chunk => {
+    contacts.push(...chunk.contacts);
+    errors.push(...chunk.errors);
   });
 
-  return duplicates;
+  return {
+    success: result.success,
+    contacts: result.success ? contacts : [],
+    errors: [...errors, ...result.errors],
+    totalRows: result.totalRows,
+    validRows: result.validRows,
+  };
+}
+
+/**
+ * Read a file's headers and first rows so the user can map its columns before importing.
+ * For Excel files `sheet` picks the sheet to preview (the first one by default).
+ */
+export async function previewContactFile(filePath: string, sheet?: string, sampleSize: number = 10): Promise<FilePreview> {
+  const ext = path.extname(filePath).toLowerCase();
+  const toSample = (row: Record<string, any>) =>
+    Object.fromEntries(Object.entries(row).map(([key, value]) => [key, value?.toString() ?? '']));
+
+  if (ext === '.xlsx' || ext === '.xls') {
+    const sheets = listSheets(filePath);
+    const sheetName = sheet || sheets[0];
+    // Only the header and sample rows are parsed
+    const { worksheet, headers } = readSheet(filePath, sheetName, sampleSize + 1);
+    const sample = readSheetWindow(worksheet, headers, 0, sampleSize);
+
+    // The sheet's full extent survives truncation; it counts blank rows too
+    const fullRange = xlsx.utils.decode_range(worksheet['!fullref'] || worksheet['!ref'] || 'A1');
+    return {
+      sheets,
+      sheet: sheetName,
+      headers,
+      sampleRows: (sample?.rows || []).map(({ row }) => toSample(row)),
+      totalRows: fullRange.e.r - fullRange.s.r,
+      suggestedMapping: detectColumnMapping(headers),
+    };
+  }
+
+  if (ext !== '.csv') {
+    throw new Error(`Unsupported file format: ${ext}. Please use CSV, XLSX, or XLS.`);
+  }
+
+  return new Promise((resolve, reject) => {
+    let headers: string[] = [];
+    const sampleRows: Record<string, string>[] = [];
+    let totalRows = 0;
+
+    fs.createReadStream(filePath)
+      .pipe(csvParser())
+      .on('headers', (fileHeaders: string[]) => {
+        headers = fileHeaders;
+      })
+      .on('data', (row: any) => {
+        totalRows++;
+        if (sampleRows.length < sampleSize) {
+          sampleRows.push(toSample(row));
+        }
+      })
+      .on('end', () => {
+        resolve({ sheets: [], headers, sampleRows, totalRows, suggestedMapping: detectColumnMapping(headers) });
+      })
+      .on('error', reject);
+  });
+}
+
+export interface SuppressionRow {
+  phone: string;
+  reason?: string;
+}
+
+export interface SuppressionParseResult {
+  success: boolean;
+  rows: SuppressionRow[];
+  errors: string[];
+  totalRows: number;
+}
+
+/**
+ * Parse a do-not-call list (CSV, XLSX or XLS) with a phone column and an optional reason column.
+ * Numbers are returned in E.164.
+ */
+export function parseSuppressionFile(filePath: string, defaultRegion?: string): SuppressionParseResult {
+  try {
+    // xlsx reads CSV as well, so every format goes through the first sheet
+    const { worksheet, headers } = readSheet(filePath, listSheets(filePath)[0]);
+
+    const rows: SuppressionRow[] = [];
+    const errors: string[] = [];
+    let totalRows = 0;
+
+    let chunk: SheetRowWindow | null;
+    for (let index = 0; (chunk = readSheetWindow(worksheet, headers, index, DEFAULT_CHUNK_SIZE)); index++) {
+      totalRows += chunk.rows.length;
+      chunk.rows.forEach(({ row, rowNumber }) => {
+        const phone = (row.phone || row.Phone || row.PHONE ||
+                       row.phoneNumber || row['Phone Number'] ||
+                       row.mobile || row.Mobile || '').toString().trim();
+        const reason = (row.reason || row.Reason || row.REASON || '').toString().trim();
+
+        if (!phone) {
+          errors.push(`Row ${rowNumber}: Missing phone number`);
+          return;
+        }
+
+        const normalized = normalizePhone(phone, defaultRegion);
+        if (!normalized.valid) {
+          errors.push(`Row ${rowNumber}: ${normalized.error}`);
+          return;
+        }
+
+        rows.push({ phone: normalized.e164, reason: reason || undefined });
+      });
+    }
+
+    console.log(`Suppression list parsing complete: ${rows.length}/${totalRows} valid numbers`);
+
+    return { success: true, rows, errors, totalRows };
+  } catch (error: any) {
+    console.error('Suppression list parsing error:', error);
+    return {
+      success: false,
+      rows: [],
+      errors: [`Failed to parse file: ${error.message}`],
+      totalRows: 0,
+    };
+  }
 }
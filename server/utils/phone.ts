@@ -0,0 +1,89 @@
+import { parsePhoneNumberWithError, isSupportedCountry, CountryCode, NumberType } from 'libphonenumber-js/core';
+// Full metadata is needed to tell mobile from landline numbers. Passed explicitly because
+// the `libphonenumber-js/max` entry point loads its JSON in a way tsx does not resolve.
+import metadata from 'libphonenumber-js/metadata.max.json';
+
+export const PHONE_TYPES = ['mobile', 'landline', 'fixed_or_mobile', 'voip', 'toll_free', 'other', 'unknown'] as const;
+
+export type PhoneType = typeof PHONE_TYPES[number];
+
+// Region assumed for numbers written without a country code, when neither the campaign nor the user sets one
+export const FALLBACK_PHONE_REGION = 'IN';
+
+export type NormalizedPhone =
+  | { valid: true; e164: string; region?: string; type: PhoneType }
+  | { valid: false; error: string };
+
+const NUMBER_TYPES: Partial<Record<NumberType & string, PhoneType>> = {
+  MOBILE: 'mobile',
+  FIXED_LINE: 'landline',
+  FIXED_LINE_OR_MOBILE: 'fixed_or_mobile',
+  VOIP: 'voip',
+  TOLL_FREE: 'toll_free',
+};
+
+/**
+ * Check whether a string is a supported ISO 3166 region code such as "IN" or "US"
+ */
+export function isValidPhoneRegion(region: string): boolean {
+  return typeof region === 'string' && isSupportedCountry(region.trim().toUpperCase() as CountryCode, metadata);
+}
+
+/**
+ * Region used for numbers without a country code: the first one given that is set,
+ * then DEFAULT_PHONE_REGION, then India
+ */
+export function resolvePhoneRegion(...regions: Array<string | undefined | null>): CountryCode {
+  // Read environment variables inside function after dotenv loads
+  const candidates = [...regions, process.env.DEFAULT_PHONE_REGION, FALLBACK_PHONE_REGION];
+  const region = candidates.find(candidate => candidate && isValidPhoneRegion(candidate));
+  return region!.trim().toUpperCase() as CountryCode;
+}
+
+/**
+ * Normalise a number as written in a contact list to E.164. Numbers without a
+ * "+" are read in `defaultRegion`; "00" international prefixes are accepted.
+ * Numbers that do not fit their country's numbering plan are rejected.
+ */
+export function normalizePhone(raw: string, defaultRegion?: string | null): NormalizedPhone {
+  const input = (raw ?? '').toString().trim();
+  if (!input) {
+    return { valid: false, error: 'Missing phone number' };
+  }
+
+  // "0091..." is the international form of "+91..."
+  const written = input.replace(/^00(?=[1-9])/, '+');
+
+  try {
+    const parsed = parsePhoneNumberWithError(written, resolvePhoneRegion(defaultRegion), metadata);
+    if (!parsed.isValid()) {
+      return { valid: false, error: `Invalid phone number for ${parsed.country || `+${parsed.countryCallingCode}`}: ${input}` };
+    }
+
+    const type = parsed.getType();
+    return {
+      valid: true,
+      e164: parsed.number,
+      region: parsed.country,
+      type: type ? NUMBER_TYPES[type] || 'other' : 'unknown',
+    };
+  } catch {
+    return { valid: false, error: `Invalid phone number format: ${input}` };
+  }
+}
+
+/**
+ * Whether a number is valid in its numbering plan
+ */
+export function validatePhoneNumber(phone: string, defaultRegion?: string | null): boolean {
+  return normalizePhone(phone, defaultRegion).valid;
+}
+
+/**
+ * Format a number to E.164. Numbers that cannot be parsed keep their digits behind a "+"
+ * so records stored before validation still produce a dialable string.
+ */
+export function formatPhoneNumber(phone: string, defaultRegion?: string | null): string {
+  const normalized = normalizePhone(phone, defaultRegion);
+  return normalized.valid ? normalized.e164 : '+' + (phone ?? '').toString().replace(/\D/g, '');
+}
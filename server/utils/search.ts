@@ -0,0 +1,6 @@
+/**
+ * Escape user input for use inside a MongoDB $regex, so it matches literally
+ */
+export function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,221 @@
+export interface CallingWindow {
+  start: string; // "HH:mm" local time
+  end: string; // "HH:mm" local time
+  days: number[]; // Allowed weekdays, 0 = Sunday ... 6 = Saturday
+}
+
+// Fallback when neither the contact nor its campaign yields a time zone
+export const DEFAULT_TIMEZONE = 'Asia/Kolkata';
+
+// Country calling codes with a single time zone, longest prefixes first. Countries that
+// span several zones (+1, +7, +52, +55, +61, +62, ...) are left out: guessing one zone
+// would open the calling window hours early for part of the country, so their
+// contacts need a known city or fall back to the campaign's time zone.
+const COUNTRY_CODE_TIMEZONES: Array<[string, string]> = [
+  ['971', 'Asia/Dubai'],
+  ['966', 'Asia/Riyadh'],
+  ['965', 'Asia/Kuwait'],
+  ['974', 'Asia/Qatar'],
+  ['880', 'Asia/Dhaka'],
+  ['977', 'Asia/Kathmandu'],
+  ['94', 'Asia/Colombo'],
+  ['92', 'Asia/Karachi'],
+  ['91', 'Asia/Kolkata'],
+  ['65', 'Asia/Singapore'],
+  ['60', 'Asia/Kuala_Lumpur'],
+  ['63', 'Asia/Manila'],
+  ['66', 'Asia/Bangkok'],
+  ['81', 'Asia/Tokyo'],
+  ['82', 'Asia/Seoul'],
+  ['86', 'Asia/Shanghai'],
+  ['64', 'Pacific/Auckland'],
+  ['27', 'Africa/Johannesburg'],
+  ['234', 'Africa/Lagos'],
+  ['254', 'Africa/Nairobi'],
+  ['20', 'Africa/Cairo'],
+  ['44', 'Europe/London'],
+  ['49', 'Europe/Berlin'],
+  ['33', 'Europe/Paris'],
+  ['39', 'Europe/Rome'],
+  ['34', 'Europe/Madrid'],
+  ['31', 'Europe/Amsterdam'],
+];
+
+// Cities for countries that span several zones, or spellings found in contact lists
+const CITY_TIMEZONES: Record<string, string> = {
+  'new york': 'America/New_York',
+  boston: 'America/New_York',
+  miami: 'America/New_York',
+  atlanta: 'America/New_York',
+  toronto: 'America/Toronto',
+  chicago: 'America/Chicago',
+  dallas: 'America/Chicago',
+  houston: 'America/Chicago',
+  denver: 'America/Denver',
+  phoenix: 'America/Phoenix',
+  'los angeles': 'America/Los_Angeles',
+  'san francisco': 'America/Los_Angeles',
+  seattle: 'America/Los_Angeles',
+  vancouver: 'America/Vancouver',
+  london: 'Europe/London',
+  dubai: 'Asia/Dubai',
+  singapore: 'Asia/Singapore',
+  sydney: 'Australia/Sydney',
+  melbourne: 'Australia/Melbourne',
+  perth: 'Australia/Perth',
+  brisbane: 'Australia/Brisbane',
+  adelaide: 'Australia/Adelaide',
+  jakarta: 'Asia/Jakarta',
+  'sao paulo': 'America/Sao_Paulo',
+  'mexico city': 'America/Mexico_City',
+  mumbai: 'Asia/Kolkata',
+  delhi: 'Asia/Kolkata',
+  'new delhi': 'Asia/Kolkata',
+  bangalore: 'Asia/Kolkata',
+  bengaluru: 'Asia/Kolkata',
+  chennai: 'Asia/Kolkata',
+  kolkata: 'Asia/Kolkata',
+  hyderabad: 'Asia/Kolkata',
+  pune: 'Asia/Kolkata',
+};
+
+/**
+ * Check whether a string is a valid IANA time zone name
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Derive a contact's time zone from its city (preferred, as it disambiguates
+ * multi-zone countries) or from the phone's country calling code.
+ * Only numbers written with a leading "+" carry a reliable country code.
+ */
+export function resolveTimezone(phone: string, city?: string): string | undefined {
+  const cityKey = city?.trim().toLowerCase();
+  if (cityKey && CITY_TIMEZONES[cityKey]) {
+    return CITY_TIMEZONES[cityKey];
+  }
+
+  const trimmed = phone.trim();
+  if (!trimmed.startsWith('+')) {
+    return undefined;
+  }
+
+  const digits = trimmed.replace(/\D/g, '');
+  const match = COUNTRY_CODE_TIMEZONES.find(([code]) => digits.startsWith(code));
+  return match?.[1];
+}
+
+function parseTime(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Validate user input into a calling window. Throws with a readable message on bad input.
+ */
+export function parseCallingWindow(input: any): CallingWindow {
+  if (!input || typeof input !== 'object') {
+    throw new Error('Calling window must be an object with start, end and days');
+  }
+
+  const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+  if (!timePattern.test(input.start) || !timePattern.test(input.end)) {
+    throw new Error('Calling window start and end must be HH:mm times');
+  }
+
+  if (parseTime(input.start) >= parseTime(input.end)) {
+    throw new Error('Calling window start must be before its end');
+  }
+
+  const days = input.days === undefined ? [0, 1, 2, 3, 4, 5, 6] : input.days;
+  if (!Array.isArray(days) || days.length === 0 || days.some((d: any) => !Number.isInteger(d) || d < 0 || d > 6)) {
+    throw new Error('Calling window days must be a non-empty list of weekdays (0 = Sunday ... 6 = Saturday)');
+  }
+
+  return {
+    start: input.start,
+    end: input.end,
+    days: Array.from(new Set<number>(days)).sort(),
+  };
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Wall-clock parts of an instant in a time zone
+ */
+function getLocalParts(date: Date, timezone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    weekday: 'short',
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find(p => p.type === type)?.value || '';
+
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    minutes: Number(get('hour')) * 60 + Number(get('minute')),
+    weekday: WEEKDAYS.indexOf(get('weekday')),
+  };
+}
+
+/**
+ * Offset of a time zone from UTC at a given instant, in milliseconds
+ */
+function getTimezoneOffset(date: Date, timezone: string): number {
+  const local = getLocalParts(date, timezone);
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, 0, local.minutes);
+  return asUtc - Math.floor(date.getTime() / 60000) * 60000;
+}
+
+/**
+ * Whether an instant falls inside the calling window in the given time zone
+ */
+export function isWithinCallingWindow(window: CallingWindow, timezone: string, now: Date = new Date()): boolean {
+  const local = getLocalParts(now, timezone);
+  return (
+    window.days.includes(local.weekday) &&
+    local.minutes >= parseTime(window.start) &&
+    local.minutes < parseTime(window.end)
+  );
+}
+
+/**
+ * The next instant at which the calling window opens in the given time zone
+ */
+export function getNextWindowStart(window: CallingWindow, timezone: string, now: Date = new Date()): Date {
+  const local = getLocalParts(now, timezone);
+  const startMinutes = parseTime(window.start);
+
+  for (let offsetDays = 0; offsetDays <= 7; offsetDays++) {
+    const weekday = (local.weekday + offsetDays) % 7;
+    if (!window.days.includes(weekday)) {
+      continue;
+    }
+    if (offsetDays === 0 && local.minutes >= startMinutes) {
+      continue;
+    }
+
+    const localStartAsUtc = Date.UTC(local.year, local.month - 1, local.day + offsetDays, 0, startMinutes);
+    const offset = getTimezoneOffset(new Date(localStartAsUtc), timezone);
+    return new Date(localStartAsUtc - offset);
+  }
+
+  // Unreachable for a valid window, but never return a time in the past
+  return new Date(now.getTime() + 24 * 60 * 60 * 1000);
+}
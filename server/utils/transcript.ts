@@ -0,0 +1,98 @@
+export const TRANSCRIPT_SPEAKERS = ['agent', 'contact', 'unknown'] as const;
+
+export type TranscriptSpeaker = typeof TRANSCRIPT_SPEAKERS[number];
+
+export interface TranscriptTurn {
+  speaker: TranscriptSpeaker;
+  label: string; // Speaker as written in the transcript, e.g. "assistant"
+  text: string;
+  start: number; // Seconds from the start of the recording
+  end: number;
+  estimated: boolean; // Timing spread over the call by text length because the transcript had none
+}
+
+// Speaker labels used by providers, mapped onto who was talking
+const SPEAKER_ALIASES: Record<string, TranscriptSpeaker> = {
+  assistant: 'agent',
+  agent: 'agent',
+  bot: 'agent',
+  ai: 'agent',
+  user: 'contact',
+  customer: 'contact',
+  contact: 'contact',
+  caller: 'contact',
+  human: 'contact',
+};
+
+// "[00:12] assistant: Hello", "00:01:05 - user: Hi", "(12.5s) agent: ..." or plain "user: Hi"
+const TURN_PATTERN =
+  /^\s*(?:[[(]?\s*(\d{1,2}:\d{2}(?::\d{2})?(?:\.\d+)?|\d+(?:\.\d+)?s)\s*[\])]?\s*-?\s*)?([A-Za-z][\w ]{0,30}?)\s*:\s*(.*)$/;
+
+function parseTimestamp(value: string): number {
+  if (value.endsWith('s')) {
+    return parseFloat(value);
+  }
+  return value.split(':').reduce((seconds, part) => seconds * 60 + parseFloat(part), 0);
+}
+
+function toSpeaker(label: string): TranscriptSpeaker {
+  return SPEAKER_ALIASES[label.trim().toLowerCase()] || 'unknown';
+}
+
+/**
+ * Split a provider transcript into speaker-labelled turns. Lines without a speaker
+ * continue the previous turn. When the transcript carries no timestamps, turns are
+ * spread over `conversationTime` in proportion to their length and marked estimated.
+ */
+export function parseTranscript(transcript: string, conversationTime?: number): TranscriptTurn[] {
+  const turns: Array<{ label: string; text: string; start?: number }> = [];
+
+  transcript.split(/\r?\n/).forEach(line => {
+    if (!line.trim()) {
+      return;
+    }
+
+    const match = line.match(TURN_PATTERN);
+    // Only treat "word:" as a speaker when it is a known label or the line is timestamped
+    if (match && (match[1] || SPEAKER_ALIASES[match[2].trim().toLowerCase()])) {
+      turns.push({
+        label: match[2].trim(),
+        text: match[3].trim(),
+        start: match[1] ? parseTimestamp(match[1]) : undefined,
+      });
+    } else if (turns.length > 0) {
+      const previous = turns[turns.length - 1];
+      previous.text = previous.text ? `${previous.text}\n${line.trim()}` : line.trim();
+    } else {
+      turns.push({ label: 'unknown', text: line.trim() });
+    }
+  });
+
+  const timed = turns.length > 0 && turns.every(turn => turn.start !== undefined);
+  const totalLength = turns.reduce((sum, turn) => sum + Math.max(turn.text.length, 1), 0);
+  const duration = conversationTime && conversationTime > 0 ? conversationTime : 0;
+
+  let cursor = 0;
+  return turns.map((turn, index) => {
+    let start: number;
+    let end: number;
+
+    if (timed) {
+      start = turn.start!;
+      end = index < turns.length - 1 ? turns[index + 1].start! : Math.max(duration, start);
+    } else {
+      start = cursor;
+      end = cursor + (duration * Math.max(turn.text.length, 1)) / totalLength;
+      cursor = end;
+    }
+
+    return {
+      speaker: toSpeaker(turn.label),
+      label: turn.label,
+      text: turn.text,
+      start: Math.round(start * 10) / 10,
+      end: Math.round(end * 10) / 10,
+      estimated: !timed,
+    };
+  });
+}
@@ -0,0 +1,59 @@
+import type { IBulkCallQueue } from '../models/BulkCallQueue';
+
+// Column spellings for the variables insurance scripts rely on, mapped to one canonical name
+const COMMON_VARIABLE_ALIASES: Record<string, string[]> = {
+  policy_number: ['policy number', 'policy no', 'policy no.', 'policy_no', 'policy #', 'policy id', 'policy'],
+  renewal_date: ['renewal date', 'renewal', 'renewal due', 'due date', 'expiry date'],
+  premium_amount: ['premium amount', 'premium', 'premium due', 'amount due'],
+  product_type: ['product type', 'product', 'plan', 'plan type', 'policy type'],
+};
+
+/**
+ * Variable name for a spreadsheet column: a known canonical name, or the header
+ * lower-cased with every other character run turned into "_"
+ */
+export function toVariableName(header: string): string {
+  const normalized = header.trim().toLowerCase();
+
+  const canonical = Object.keys(COMMON_VARIABLE_ALIASES).find(
+    name => name === normalized || COMMON_VARIABLE_ALIASES[name].includes(normalized)
+  );
+  if (canonical) {
+    return canonical;
+  }
+
+  const slug = normalized.replace(/[^a-z0-9_]+/g, '_').replace(/^_+|_+$/g, '');
+  return /^[0-9]/.test(slug) ? `col_${slug}` : slug;
+}
+
+/**
+ * Replace `{variable}` placeholders in a template. Unknown placeholders are left as written.
+ */
+export function renderTemplate(template: string, variables: Record<string, any>): string {
+  return template.replace(/\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}/g, (placeholder, name) =>
+    variables[name] !== undefined && variables[name] !== null ? String(variables[name]) : placeholder
+  );
+}
+
+/**
+ * Every variable available to the agent for a contact: its custom variables
+ * plus the standard contact fields, which take precedence on a name clash
+ */
+export function buildContactVariables(call: IBulkCallQueue): Record<string, any> {
+  const variables: Record<string, any> = { ...(call.metadata || {}) };
+
+  const standard: Record<string, any> = {
+    name: call.name,
+    phone: call.phone,
+    city: call.city,
+    email: call.email,
+    notes: call.notes,
+  };
+  Object.entries(standard).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') {
+      variables[key] = value;
+    }
+  });
+
+  return variables;
+}